@@ -0,0 +1,365 @@
+"use client"
+
+import { type FormEvent, useCallback, useEffect, useState } from "react"
+import { LogOut, RefreshCw } from "lucide-react"
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts"
+import type { VerificationAnalytics } from "@/lib/analytics"
+
+const outcomeColors = {
+  verified: "#22c55e",
+  failed: "#ef4444",
+  step_up: "#f59e0b",
+  rate_limited: "#6366f1",
+}
+
+const outcomeLabels = {
+  verified: "Verified",
+  failed: "Failed",
+  step_up: "Step-up",
+  rate_limited: "Rate limited",
+}
+
+const rangeOptions = [
+  { days: 1, label: "24 hours" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+]
+
+function formatBucket(time: string, interval: VerificationAnalytics["interval"]) {
+  const date = new Date(time)
+  return interval === "hour"
+    ? date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+function ChartCard({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4 sm:p-6">
+      <h2 className="text-sm font-semibold text-gray-700 mb-4">{title}</h2>
+      {children}
+    </section>
+  )
+}
+
+function EmptyChart() {
+  return <p className="h-64 flex items-center justify-center text-sm text-gray-400">No data for this range</p>
+}
+
+export default function AdminDashboard() {
+  const [authorized, setAuthorized] = useState<boolean | null>(null)
+  const [adminKey, setAdminKey] = useState("")
+  const [loginError, setLoginError] = useState("")
+  const [guild, setGuild] = useState("")
+  const [days, setDays] = useState(7)
+  const [analytics, setAnalytics] = useState<VerificationAnalytics | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true)
+    setError("")
+    try {
+      const params = new URLSearchParams({ days: String(days) })
+      if (guild) params.set("guild", guild)
+      const response = await fetch(`/api/analytics?${params}`)
+      if (response.status === 401) {
+        setAuthorized(false)
+        return
+      }
+
+      const data = await response.json()
+      if (!data.success) {
+        setError(data.error || "Failed to load analytics")
+        return
+      }
+      setAuthorized(true)
+      setAnalytics(data)
+    } catch (loadError) {
+      console.error("Failed to load analytics:", loadError)
+      setError("Failed to load analytics")
+    } finally {
+      setLoading(false)
+    }
+  }, [days, guild])
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [loadAnalytics])
+
+  const handleLogin = async (event: FormEvent) => {
+    event.preventDefault()
+    setLoginError("")
+    const response = await fetch("/api/admin/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key: adminKey }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!data.success) {
+      setLoginError(data.error || "Sign-in failed")
+      return
+    }
+    setAdminKey("")
+    loadAnalytics()
+  }
+
+  const handleLogout = async () => {
+    await fetch("/api/admin/session", { method: "DELETE" }).catch(() => {})
+    setAnalytics(null)
+    setAuthorized(false)
+  }
+
+  if (authorized === false) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <form onSubmit={handleLogin} className="w-full max-w-sm bg-white rounded-2xl shadow-sm border border-gray-200 p-6">
+          <h1 className="text-xl font-bold text-gray-900 mb-1">Verification admin</h1>
+          <p className="text-sm text-gray-500 mb-4">Enter the admin API key to continue.</p>
+          <input
+            type="password"
+            value={adminKey}
+            onChange={(event) => setAdminKey(event.target.value)}
+            placeholder="ADMIN_API_KEY"
+            autoFocus
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm mb-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          {loginError && <p className="text-sm text-red-600 mb-3">{loginError}</p>}
+          <button
+            type="submit"
+            disabled={!adminKey}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-300 text-white font-semibold py-2 rounded-lg text-sm transition-colors"
+          >
+            Sign in
+          </button>
+        </form>
+      </main>
+    )
+  }
+
+  if (!analytics) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-3">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="w-10 h-10 border-4 border-indigo-500 border-t-transparent rounded-full animate-spin" />
+        )}
+      </main>
+    )
+  }
+
+  const { totals, interval } = analytics
+  const timeline = analytics.timeline.map((point) => ({ ...point, label: formatBucket(point.time, interval) }))
+  const downstream = analytics.downstream.map((point) => ({ ...point, label: formatBucket(point.time, interval) }))
+  const outcomes = (Object.keys(outcomeLabels) as (keyof typeof outcomeLabels)[])
+    .map((outcome) => ({ outcome, name: outcomeLabels[outcome], value: totals[outcome] }))
+    .filter((entry) => entry.value > 0)
+  const hasScores = analytics.scores.some((bucket) => bucket.verified + bucket.failed > 0)
+  const hasDownstreamFailures = analytics.downstream.some((point) => point.failed > 0)
+
+  return (
+    <main className="min-h-screen bg-gray-50 p-4 sm:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <header className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Verification health</h1>
+            <p className="text-sm text-gray-500">
+              {analytics.guilds.find((entry) => entry.id === guild)?.name || (guild ? guild : "All guilds")}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={guild}
+              onChange={(event) => setGuild(event.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+            >
+              <option value="">All guilds</option>
+              {analytics.guilds.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.name || entry.id}
+                </option>
+              ))}
+            </select>
+            <select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm bg-white"
+            >
+              {rangeOptions.map((option) => (
+                <option key={option.days} value={option.days}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={loadAnalytics}
+              disabled={loading}
+              className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100"
+              title="Refresh"
+            >
+              <RefreshCw className={`w-4 h-4 text-gray-600 ${loading ? "animate-spin" : ""}`} />
+            </button>
+            <button
+              onClick={handleLogout}
+              className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100"
+              title="Sign out"
+            >
+              <LogOut className="w-4 h-4 text-gray-600" />
+            </button>
+          </div>
+        </header>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+          {[
+            { label: "Attempts", value: totals.total },
+            {
+              label: "Success rate",
+              value: totals.successRate === null ? "–" : `${Math.round(totals.successRate * 100)}%`,
+            },
+            { label: "Verified", value: totals.verified },
+            { label: "Failed", value: totals.failed },
+            { label: "Rate limited", value: totals.rate_limited },
+          ].map((stat) => (
+            <div key={stat.label} className="bg-white rounded-2xl shadow-sm border border-gray-200 p-4">
+              <p className="text-xs text-gray-500">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <ChartCard title={`Verifications per ${interval}`}>
+          {totals.total === 0 ? (
+            <EmptyChart />
+          ) : (
+            <ResponsiveContainer width="100%" height={280}>
+              <AreaChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={16} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip />
+                <Legend />
+                {(Object.keys(outcomeLabels) as (keyof typeof outcomeLabels)[]).map((outcome) => (
+                  <Area
+                    key={outcome}
+                    type="monotone"
+                    dataKey={outcome}
+                    name={outcomeLabels[outcome]}
+                    stackId="outcomes"
+                    stroke={outcomeColors[outcome]}
+                    fill={outcomeColors[outcome]}
+                    fillOpacity={0.4}
+                  />
+                ))}
+              </AreaChart>
+            </ResponsiveContainer>
+          )}
+        </ChartCard>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <ChartCard title="Outcomes">
+            {outcomes.length === 0 ? (
+              <EmptyChart />
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <PieChart>
+                  <Pie data={outcomes} dataKey="value" nameKey="name" innerRadius={60} outerRadius={100} label>
+                    {outcomes.map((entry) => (
+                      <Cell key={entry.outcome} fill={outcomeColors[entry.outcome]} />
+                    ))}
+                  </Pie>
+                  <Tooltip />
+                  <Legend />
+                </PieChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+
+          <ChartCard title="Captcha score distribution">
+            {!hasScores ? (
+              <EmptyChart />
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={analytics.scores}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="range" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="verified" name="Verified" stackId="score" fill={outcomeColors.verified} />
+                  <Bar dataKey="failed" name="Not verified" stackId="score" fill={outcomeColors.failed} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+
+          <ChartCard title="Captcha error codes">
+            {analytics.errorCodes.length === 0 ? (
+              <EmptyChart />
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={analytics.errorCodes} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <YAxis type="category" dataKey="code" width={160} tick={{ fontSize: 11 }} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="Attempts" fill={outcomeColors.failed} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+
+          <ChartCard title="Downstream delivery failures">
+            {!hasDownstreamFailures ? (
+              <EmptyChart />
+            ) : (
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={downstream}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={16} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="failed" name="Failed deliveries" fill={outcomeColors.failed} />
+                  <Bar dataKey="pending" name="Awaiting replay" fill={outcomeColors.step_up} />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </ChartCard>
+        </div>
+
+        <ChartCard title="Top failure reasons">
+          {analytics.reasons.length === 0 ? (
+            <p className="text-sm text-gray-400">No failed verifications in this range</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {analytics.reasons.map((entry) => (
+                <li key={entry.reason} className="flex justify-between py-2 text-sm">
+                  <span className="text-gray-700">{entry.reason}</span>
+                  <span className="font-semibold text-gray-900">{entry.count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </ChartCard>
+      </div>
+    </main>
+  )
+}
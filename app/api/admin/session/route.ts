@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { clearAdminSession, isAdminKey, setAdminSession } from "@/lib/admin-auth"
+import { getClientIp, protectIp } from "@/lib/client-ip"
+import { logger } from "@/lib/logger"
+import { checkRateLimits } from "@/lib/rate-limit"
+import { withRequestContext } from "@/lib/request-context"
+
+// Exchanges the admin API key for a dashboard session cookie
+export const POST = withRequestContext(async (request: NextRequest) => {
+  if (!process.env.ADMIN_API_KEY) {
+    logger.error("ADMIN_API_KEY not set in environment")
+    return NextResponse.json({ success: false, error: "Server configuration error" }, { status: 500 })
+  }
+
+  // Guessing the key is throttled per client; clients whose IP can't be resolved share one budget
+  const clientIp = getClientIp(request)
+  const ip = protectIp(clientIp)
+  const limit = await checkRateLimits({ admin: clientIp === "unknown" ? "unresolved" : ip })
+  if (limit.limited) {
+    logger.warn("Admin sign-in rate limit exceeded", { ip, retryAfter: limit.retryAfter })
+    return NextResponse.json(
+      { success: false, error: "Too many sign-in attempts - please wait and try again", retryAfter: limit.retryAfter },
+      { status: 429, headers: { "Retry-After": String(limit.retryAfter) } },
+    )
+  }
+
+  const { key } = await request.json().catch(() => ({}))
+  if (typeof key !== "string" || !isAdminKey(key)) {
+    logger.warn("Rejected admin dashboard sign-in", { ip })
+    return NextResponse.json({ success: false, error: "Invalid admin key" }, { status: 401 })
+  }
+
+  const response = NextResponse.json({ success: true })
+  setAdminSession(response)
+  return response
+})
+
+export const DELETE = withRequestContext(async (_request: NextRequest) => {
+  const response = NextResponse.json({ success: true })
+  clearAdminSession(response)
+  return response
+})
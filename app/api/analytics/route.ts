@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { buildVerificationAnalytics } from "@/lib/analytics"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+const DEFAULT_DAYS = 7
+const MAX_DAYS = 90
+
+// Chart data for the admin dashboard: ?guild= and ?days= (1-90, default 7)
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const params = request.nextUrl.searchParams
+  const days = Number(params.get("days") || DEFAULT_DAYS)
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    return NextResponse.json({ success: false, error: `days must be between 1 and ${MAX_DAYS}` }, { status: 400 })
+  }
+
+  try {
+    const to = new Date()
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000)
+    const analytics = await buildVerificationAnalytics({ guild: params.get("guild") || undefined, from, to })
+    return NextResponse.json({ success: true, ...analytics })
+  } catch (error) {
+    logger.error("Error building analytics", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
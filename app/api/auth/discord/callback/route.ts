@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  clearOAuthState,
+  exchangeOAuthCode,
+  fetchDiscordUser,
+  isMemberOfGuild,
+  type OAuthState,
+  readDiscordSession,
+  setDiscordSession,
+  takeOAuthState,
+} from "@/lib/discord-oauth"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import { verifyVerificationLinkToken } from "@/lib/verification-link"
+
+function backToPage(request: NextRequest, pending: OAuthState | null, authError?: string) {
+  const url = new URL("/", request.nextUrl.origin)
+  if (pending?.link) url.searchParams.set("token", pending.link)
+  if (pending?.locale) url.searchParams.set("locale", pending.locale)
+  if (authError) url.searchParams.set("auth_error", authError)
+  const response = NextResponse.redirect(url)
+  clearOAuthState(response)
+  return response
+}
+
+// Discord redirects here after the user approves (or denies) the sign-in
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams
+  const pending = takeOAuthState(request, params.get("state"))
+  if (!pending) {
+    logger.error("Discord OAuth callback with missing or mismatched state")
+    return backToPage(request, null, "state")
+  }
+
+  if (params.get("error") || !params.get("code")) {
+    logger.warn("Discord OAuth was not approved", { reason: params.get("error") })
+    return backToPage(request, pending, "denied")
+  }
+
+  try {
+    const linkResult = await verifyVerificationLinkToken(pending.link)
+    if (!linkResult.valid) {
+      return backToPage(request, pending)
+    }
+    const { guild } = linkResult.link
+
+    const { accessToken, scopes } = await exchangeOAuthCode(request, params.get("code") as string)
+    const user = await fetchDiscordUser(accessToken)
+
+    // Keep membership results from an earlier sign-in by the same account
+    const existing = readDiscordSession(request)
+    const guilds = existing?.userId === user.id ? { ...existing.guilds } : {}
+    if (scopes.includes("guilds")) {
+      guilds[guild] = await isMemberOfGuild(accessToken, guild)
+    }
+
+    if (user.id !== linkResult.link.id) {
+      logger.warn("Discord sign-in differs from link user; session wins", { user: user.id, linkUser: linkResult.link.id })
+    }
+    logger.info("Discord sign-in completed", { user: user.id, guild, member: guilds[guild] ?? "not checked" })
+
+    const response = backToPage(request, pending)
+    setDiscordSession(response, { userId: user.id, username: user.global_name || user.username, guilds })
+    return response
+  } catch (error) {
+    logger.error("Discord OAuth callback failed", { error })
+    return backToPage(request, pending, "failed")
+  }
+})
@@ -0,0 +1,10 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { clearDiscordSession } from "@/lib/discord-oauth"
+import { withRequestContext } from "@/lib/request-context"
+
+// Lets a user switch accounts before verifying
+export const POST = withRequestContext(async (_request: NextRequest) => {
+  const response = NextResponse.json({ success: true })
+  clearDiscordSession(response)
+  return response
+})
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { isDiscordOAuthConfigured, redirectToDiscordOAuth } from "@/lib/discord-oauth"
+import { getGuildPolicy } from "@/lib/guild-policy"
+import { matchLocale } from "@/lib/i18n"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import { verifyVerificationLinkToken } from "@/lib/verification-link"
+
+// Sends the user to Discord to sign in before solving the captcha
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const token = request.nextUrl.searchParams.get("token")
+
+  try {
+    if (!isDiscordOAuthConfigured()) {
+      logger.error("Discord OAuth requested but DISCORD_CLIENT_ID/DISCORD_CLIENT_SECRET are not set")
+      return NextResponse.json({ success: false, error: "Server configuration error" }, { status: 500 })
+    }
+
+    const linkResult = await verifyVerificationLinkToken(token)
+    if (!linkResult.valid) {
+      const back = new URL("/", request.nextUrl.origin)
+      if (token) back.searchParams.set("token", token)
+      const locale = matchLocale(request.nextUrl.searchParams.get("locale"))
+      if (locale) back.searchParams.set("locale", locale)
+      return NextResponse.redirect(back)
+    }
+
+    const policy = await getGuildPolicy(linkResult.link.guild)
+    return redirectToDiscordOAuth(request, {
+      link: token as string,
+      locale: matchLocale(request.nextUrl.searchParams.get("locale")),
+      includeGuilds: policy.checks.guildMembership,
+    })
+  } catch (error) {
+    logger.error("Error starting Discord OAuth", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
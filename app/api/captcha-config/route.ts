@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiFailure } from "@/lib/api-response"
+import { resolveCaptchaProvider } from "@/lib/captcha/server"
+import { getGuildPolicy, guildIdSchema } from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+// Tells the page which captcha provider and site key to use, for a guild or globally
+export const GET = withRequestContext(async (request: NextRequest) => {
+  try {
+    const guild = guildIdSchema.safeParse(request.nextUrl.searchParams.get("guild"))
+    const policy = guild.success ? await getGuildPolicy(guild.data) : null
+    const provider = resolveCaptchaProvider(policy?.provider)
+    const siteKey = provider.getSiteKey()
+
+    if (!siteKey) {
+      return apiFailure("SERVER_MISCONFIGURED", `${provider.label} not configured`, 500)
+    }
+
+    return NextResponse.json({ provider: provider.name, siteKey })
+  } catch (error) {
+    logger.error("Error fetching captcha config", { error })
+    return apiFailure("INTERNAL_ERROR", "Internal server error", 500)
+  }
+})
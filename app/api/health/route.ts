@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server"
+
+// Liveness: answers whenever the process can serve requests. Left out of request logging
+// because orchestrators poll it every few seconds
+export async function GET() {
+  return NextResponse.json(
+    { status: "ok", uptime: Math.round(process.uptime()), timestamp: new Date().toISOString() },
+    { headers: { "Cache-Control": "no-store" } },
+  )
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiFailure } from "@/lib/api-response"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import { createVerificationLinkToken } from "@/lib/verification-link"
+
+// Issues a signed verification link for the bot to hand out
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const authHeader = request.headers.get("authorization") || ""
+  const expectedToken = process.env.DISCORD_API_KEY
+  if (!expectedToken) {
+    logger.error("DISCORD_API_KEY not set in environment")
+    return apiFailure("SERVER_MISCONFIGURED", "Server configuration error", 500)
+  }
+  if (!authHeader.startsWith("Bearer ") || authHeader.slice(7) !== expectedToken) {
+    return apiFailure("UNAUTHORIZED", "Unauthorized", 401)
+  }
+
+  try {
+    const { id, username, guild, guild_name, guild_icon } = (await request.json().catch(() => null)) ?? {}
+
+    if (!id || !guild) {
+      return apiFailure("INVALID_REQUEST", "User ID and guild are required", 400)
+    }
+
+    const { token, link } = createVerificationLinkToken({
+      id: String(id),
+      username,
+      guild: String(guild),
+      guild_name,
+      guild_icon,
+    })
+
+    const baseUrl = process.env.PUBLIC_BASE_URL || request.nextUrl.origin
+    const url = new URL("/", baseUrl)
+    url.searchParams.set("token", token)
+
+    return NextResponse.json({ success: true, url: url.toString(), token, expiresAt: link.exp })
+  } catch (error) {
+    logger.error("Error creating verification link", { error })
+    return apiFailure("INTERNAL_ERROR", "Internal server error", 500, {
+      details: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+})
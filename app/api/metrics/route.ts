@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireMetricsAccess } from "@/lib/admin-auth"
+import { renderMetrics } from "@/lib/metrics"
+import { withRequestContext } from "@/lib/request-context"
+
+// Prometheus scrape target for the verification pipeline
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireMetricsAccess(request)
+  if (unauthorized) return unauthorized
+
+  return new NextResponse(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+})
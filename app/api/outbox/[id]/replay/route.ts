@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { replayOutboxEntry } from "@/lib/delivery"
+import { logger } from "@/lib/logger"
+import { getOutboxEntry } from "@/lib/outbox"
+import { withRequestContext } from "@/lib/request-context"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const POST = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await context.params
+    const entry = await getOutboxEntry(id)
+    if (!entry) {
+      return NextResponse.json({ success: false, error: "Outbox entry not found" }, { status: 404 })
+    }
+
+    const { result, entry: updated } = await replayOutboxEntry(entry)
+    logger.info("Outbox entry replayed", { id, delivered: result.ok })
+    return NextResponse.json(
+      { success: result.ok, entry: updated, error: result.error?.message },
+      { status: result.ok ? 200 : 502 },
+    )
+  } catch (error) {
+    logger.error("Error replaying outbox entry", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
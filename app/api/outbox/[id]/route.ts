@@ -0,0 +1,41 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { logger } from "@/lib/logger"
+import { getOutboxEntry, removeOutboxEntry } from "@/lib/outbox"
+import { withRequestContext } from "@/lib/request-context"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export const GET = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await context.params
+    const entry = await getOutboxEntry(id)
+    if (!entry) {
+      return NextResponse.json({ success: false, error: "Outbox entry not found" }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, entry })
+  } catch (error) {
+    logger.error("Error reading outbox entry", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+// Drops an entry that should not be replayed
+export const DELETE = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const { id } = await context.params
+    if (!(await removeOutboxEntry(id))) {
+      return NextResponse.json({ success: false, error: "Outbox entry not found" }, { status: 404 })
+    }
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error("Error deleting outbox entry", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { replayOutboxEntry } from "@/lib/delivery"
+import { logger } from "@/lib/logger"
+import { listOutboxEntries, type OutboxStatus } from "@/lib/outbox"
+import { withRequestContext } from "@/lib/request-context"
+
+// Lists parked downstream deliveries, optionally filtered by ?status=failed|delivered
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const status = request.nextUrl.searchParams.get("status")
+  if (status && status !== "failed" && status !== "delivered") {
+    return NextResponse.json({ success: false, error: "Invalid status filter" }, { status: 400 })
+  }
+
+  try {
+    const entries = await listOutboxEntries((status as OutboxStatus) || undefined)
+    return NextResponse.json({ success: true, entries })
+  } catch (error) {
+    logger.error("Error listing outbox", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+// Replays every failed delivery, one at a time
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const failed = await listOutboxEntries("failed")
+    const results = []
+    for (const entry of failed) {
+      const { result } = await replayOutboxEntry(entry)
+      results.push({ id: entry.id, ok: result.ok, error: result.error?.message })
+    }
+
+    const delivered = results.filter((result) => result.ok).length
+    logger.info("Outbox replay finished", { delivered, total: results.length })
+    return NextResponse.json({ success: true, delivered, failed: results.length - delivered, results })
+  } catch (error) {
+    logger.error("Error replaying outbox", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
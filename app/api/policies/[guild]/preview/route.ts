@@ -0,0 +1,51 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { getGuildPolicy, guildIdSchema } from "@/lib/guild-policy"
+import { resolveLocale } from "@/lib/i18n"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import type { VerificationLinkResponse } from "@/lib/verify-api"
+
+type RouteContext = { params: Promise<{ guild: string }> }
+
+const PREVIEW_TTL_SECONDS = 10 * 60
+
+/**
+ * Stands in for /api/verification-link when an admin opens `/?preview=<guild>`: the page renders
+ * with the guild's stored branding and language, but no link is checked and no captcha runs.
+ */
+export const GET = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const guild = guildIdSchema.safeParse((await context.params).guild)
+  if (!guild.success) {
+    return NextResponse.json({ success: false, error: "Invalid guild ID" }, { status: 400 })
+  }
+
+  const params = request.nextUrl.searchParams
+  try {
+    const policy = await getGuildPolicy(guild.data)
+    return NextResponse.json<VerificationLinkResponse>({
+      valid: true,
+      locale: resolveLocale({
+        requested: params.get("locale"),
+        guildDefault: policy.locale,
+        acceptLanguage: request.headers.get("accept-language"),
+      }),
+      id: "0",
+      username: null,
+      guild: guild.data,
+      // The store only knows the ID; admins can pass the name to see it in the heading
+      guild_name: params.get("name"),
+      guild_icon: null,
+      expiresAt: Math.floor(Date.now() / 1000) + PREVIEW_TTL_SECONDS,
+      requiresSignIn: false,
+      discordUser: null,
+      branding: policy.branding,
+    })
+  } catch (error) {
+    logger.error("Error building branding preview", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
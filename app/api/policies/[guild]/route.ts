@@ -0,0 +1,100 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import {
+  deleteGuildPolicy,
+  findGuildPolicy,
+  getGuildPolicy,
+  guildIdSchema,
+  guildPolicyUpdateSchema,
+  GuildPolicyValidationError,
+  saveGuildPolicy,
+} from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+type RouteContext = { params: Promise<{ guild: string }> }
+
+async function resolveGuild(context: RouteContext) {
+  const { guild } = await context.params
+  return guildIdSchema.safeParse(guild)
+}
+
+export const GET = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const guild = await resolveGuild(context)
+  if (!guild.success) {
+    return NextResponse.json({ success: false, error: "Invalid guild ID" }, { status: 400 })
+  }
+
+  try {
+    const stored = await findGuildPolicy(guild.data)
+    const policy = await getGuildPolicy(guild.data)
+    return NextResponse.json({ success: true, guild: guild.data, custom: Boolean(stored), policy })
+  } catch (error) {
+    logger.error("Error reading guild policy", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+// Creates or updates a guild's policy; omitted fields keep their current values
+export const PUT = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const guild = await resolveGuild(context)
+  if (!guild.success) {
+    return NextResponse.json({ success: false, error: "Invalid guild ID" }, { status: 400 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ success: false, error: "Request body must be JSON" }, { status: 400 })
+  }
+
+  const update = guildPolicyUpdateSchema.safeParse(body)
+  if (!update.success) {
+    return NextResponse.json(
+      { success: false, error: "Invalid policy", issues: update.error.issues },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const policy = await saveGuildPolicy(guild.data, update.data)
+    logger.info("Guild policy updated", { guild: guild.data })
+    return NextResponse.json({ success: true, policy })
+  } catch (error) {
+    if (error instanceof GuildPolicyValidationError) {
+      return NextResponse.json({ success: false, error: "Invalid policy", issues: error.issues }, { status: 400 })
+    }
+    logger.error("Error saving guild policy", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
+
+// Removes a guild's policy so it falls back to the defaults
+export const DELETE = withRequestContext(async (request: NextRequest, context: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const guild = await resolveGuild(context)
+  if (!guild.success) {
+    return NextResponse.json({ success: false, error: "Invalid guild ID" }, { status: 400 })
+  }
+
+  try {
+    const deleted = await deleteGuildPolicy(guild.data)
+    if (!deleted) {
+      return NextResponse.json({ success: false, error: "No policy stored for this guild" }, { status: 404 })
+    }
+    logger.info("Guild policy deleted", { guild: guild.data })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error("Error deleting guild policy", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
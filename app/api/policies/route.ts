@@ -0,0 +1,18 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { defaultGuildPolicy, listGuildPolicies } from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const policies = await listGuildPolicies()
+    return NextResponse.json({ success: true, defaults: defaultGuildPolicy, policies })
+  } catch (error) {
+    logger.error("Error listing guild policies", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
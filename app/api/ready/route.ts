@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { hasOperatorAccess } from "@/lib/admin-auth"
+import { logger } from "@/lib/logger"
+import { checkReadiness } from "@/lib/readiness"
+import { withRequestContext } from "@/lib/request-context"
+
+/**
+ * Readiness: 200 when verification is fully configured, 503 otherwise. Only callers with
+ * the admin key or session, or the metrics token, see the individual checks, since they name
+ * missing configuration. `?probe=1` (operators only) also checks that the key-value store,
+ * downstream server(s) and webhook are reachable.
+ */
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const probe = ["1", "true"].includes(request.nextUrl.searchParams.get("probe") || "")
+  const operator = hasOperatorAccess(request)
+  // Probes send requests to other hosts, so anonymous callers must not be able to trigger them
+  if (probe && !operator) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const report = await checkReadiness({ probe })
+    if (!report.ready) {
+      logger.warn("Readiness check failed", {
+        failed: report.checks.filter((check) => check.status === "fail").map((check) => check.name),
+      })
+    }
+    return NextResponse.json(
+      { status: report.ready ? "ready" : "not_ready", ...(operator ? { checks: report.checks } : {}) },
+      { status: report.ready ? 200 : 503, headers: { "Cache-Control": "no-store" } },
+    )
+  } catch (error) {
+    logger.error("Error running readiness checks", { error })
+    const checks = [{ name: "readiness", status: "fail", message: "Readiness checks could not run" }]
+    return NextResponse.json(
+      { status: "not_ready", ...(operator ? { checks } : {}) },
+      { status: 503, headers: { "Cache-Control": "no-store" } },
+    )
+  }
+})
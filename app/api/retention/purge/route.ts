@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import { getRetentionCutoffs, purgeExpiredData } from "@/lib/retention"
+
+// Runs the retention purge now, e.g. from a cron job where no background timer survives
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  try {
+    const purged = await purgeExpiredData()
+    logger.info("Retention purge finished", { purged })
+    return NextResponse.json({ success: true, cutoffs: getRetentionCutoffs(), purged })
+  } catch (error) {
+    logger.error("Error purging expired data", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
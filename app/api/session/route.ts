@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { apiFailure } from "@/lib/api-response"
+import { resolveCaptchaProvider } from "@/lib/captcha/server"
+import { getGuildPolicy } from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import {
+  verificationLinkErrorCodes,
+  verificationLinkErrorMessages,
+  verifyVerificationLinkToken,
+} from "@/lib/verification-link"
+import { createVerificationSession, recordVerificationAttempt } from "@/lib/verification-session"
+import { sessionRequestSchema, type SessionResponse } from "@/lib/verify-api"
+
+// Starts a verification attempt: the page gets a nonce to send to /api/verify with its captcha token
+export const POST = withRequestContext(async (request: NextRequest) => {
+  try {
+    const parsed = sessionRequestSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      return apiFailure("INVALID_LINK", verificationLinkErrorMessages.missing, 400)
+    }
+
+    const linkResult = await verifyVerificationLinkToken(parsed.data.token)
+    if (!linkResult.valid) {
+      return apiFailure(
+        verificationLinkErrorCodes[linkResult.reason],
+        verificationLinkErrorMessages[linkResult.reason],
+        linkResult.reason === "used" ? 409 : 400,
+      )
+    }
+
+    const policy = await getGuildPolicy(linkResult.link.guild)
+    const attempt = await recordVerificationAttempt(linkResult.link)
+    if (policy.maxAttempts > 0 && attempt > policy.maxAttempts) {
+      logger.warn("Attempt limit reached", { link: linkResult.link.jti, maxAttempts: policy.maxAttempts })
+      return apiFailure("ATTEMPT_LIMIT_REACHED", "Too many verification attempts - please request a new link", 429)
+    }
+
+    const session = await createVerificationSession(linkResult.link, {
+      action: policy.action,
+      provider: resolveCaptchaProvider(policy.provider).name,
+    })
+    return NextResponse.json<SessionResponse>({ success: true, ...session })
+  } catch (error) {
+    logger.error("Error creating verification session", { error })
+    return apiFailure("INTERNAL_ERROR", "Internal server error", 500, {
+      details: error instanceof Error ? error.message : "Unknown error",
+    })
+  }
+})
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { guildIdSchema } from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import { deleteUserData } from "@/lib/retention"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Erases everything stored for a Discord user; ?guild= limits it to one guild
+export const DELETE = withRequestContext(async (request: NextRequest, { params }: RouteContext) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const { id } = await params
+  if (!guildIdSchema.safeParse(id).success) {
+    return NextResponse.json({ success: false, error: "Invalid user ID" }, { status: 400 })
+  }
+
+  const guild = request.nextUrl.searchParams.get("guild") || undefined
+  if (guild && !guildIdSchema.safeParse(guild).success) {
+    return NextResponse.json({ success: false, error: "Invalid guild ID" }, { status: 400 })
+  }
+
+  try {
+    const result = await deleteUserData(id, guild)
+    logger.info("Deleted user data", { user: id, guild: guild ?? null, deleted: result.deleted })
+    return NextResponse.json({
+      success: true,
+      ...result,
+      downstreamNotified: result.downstream.every((delivery) => delivery.ok),
+    })
+  } catch (error) {
+    logger.error("Error deleting user data", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
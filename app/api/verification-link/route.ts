@@ -0,0 +1,65 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { needsDiscordSignIn, readDiscordSession } from "@/lib/discord-oauth"
+import { getGuildPolicy } from "@/lib/guild-policy"
+import { resolveLocale } from "@/lib/i18n"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+import {
+  verificationLinkErrorCodes,
+  verificationLinkErrorMessages,
+  verifyVerificationLinkToken,
+} from "@/lib/verification-link"
+import type { VerificationLinkResponse } from "@/lib/verify-api"
+
+// Lets the verification page check its link before running the captcha
+export const GET = withRequestContext(async (request: NextRequest) => {
+  // The page passes on its own ?locale= so the answer comes back in one round trip
+  const requested = request.nextUrl.searchParams.get("locale")
+  const acceptLanguage = request.headers.get("accept-language")
+
+  try {
+    const result = await verifyVerificationLinkToken(request.nextUrl.searchParams.get("token"))
+
+    if (!result.valid) {
+      return NextResponse.json<VerificationLinkResponse>(
+        {
+          valid: false,
+          locale: resolveLocale({ requested, acceptLanguage }),
+          code: verificationLinkErrorCodes[result.reason],
+          reason: result.reason,
+          error: verificationLinkErrorMessages[result.reason],
+        },
+        { status: result.reason === "used" ? 409 : 400 },
+      )
+    }
+
+    const { id, username, guild, guild_name, guild_icon, exp } = result.link
+    const policy = await getGuildPolicy(guild)
+    const discordSession = readDiscordSession(request)
+
+    return NextResponse.json<VerificationLinkResponse>({
+      valid: true,
+      locale: resolveLocale({ requested, guildDefault: policy.locale, acceptLanguage }),
+      id,
+      username,
+      guild,
+      guild_name,
+      guild_icon,
+      expiresAt: exp,
+      requiresSignIn: needsDiscordSignIn(discordSession, guild, policy.checks),
+      discordUser: discordSession ? { id: discordSession.userId, username: discordSession.username } : null,
+      branding: policy.branding,
+    })
+  } catch (error) {
+    logger.error("Error checking verification link", { error })
+    return NextResponse.json<VerificationLinkResponse>(
+      {
+        valid: false,
+        locale: resolveLocale({ requested, acceptLanguage }),
+        code: "SERVER_MISCONFIGURED",
+        error: "Server configuration error",
+      },
+      { status: 500 },
+    )
+  }
+})
@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { parseVerificationQuery, queryVerifications, verificationsToCsv } from "@/lib/audit-log"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+// Downloads every matching attempt as ?format=csv (default) or json
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const params = request.nextUrl.searchParams
+  const format = params.get("format") || "csv"
+  if (format !== "csv" && format !== "json") {
+    return NextResponse.json({ success: false, error: "Invalid export format" }, { status: 400 })
+  }
+
+  const parsed = parseVerificationQuery(params)
+  if (!parsed.ok) {
+    return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+  }
+
+  try {
+    const records = await queryVerifications(parsed.query)
+    const filename = `verifications-${new Date().toISOString().slice(0, 10)}.${format}`
+    const body = format === "csv" ? verificationsToCsv(records) : JSON.stringify(records, null, 2)
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    })
+  } catch (error) {
+    logger.error("Error exporting verifications", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -0,0 +1,40 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { requireAdmin } from "@/lib/admin-auth"
+import { parseVerificationQuery, queryVerifications } from "@/lib/audit-log"
+import { logger } from "@/lib/logger"
+import { withRequestContext } from "@/lib/request-context"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 500
+
+// Pages through recorded verification attempts, newest first
+export const GET = withRequestContext(async (request: NextRequest) => {
+  const unauthorized = requireAdmin(request)
+  if (unauthorized) return unauthorized
+
+  const params = request.nextUrl.searchParams
+  const parsed = parseVerificationQuery(params)
+  if (!parsed.ok) {
+    return NextResponse.json({ success: false, error: parsed.error }, { status: 400 })
+  }
+
+  const limit = Math.min(Number(params.get("limit")) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE)
+  const offset = Math.max(Number(params.get("offset")) || 0, 0)
+  if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset)) {
+    return NextResponse.json({ success: false, error: "Invalid limit or offset" }, { status: 400 })
+  }
+
+  try {
+    const records = await queryVerifications(parsed.query)
+    return NextResponse.json({
+      success: true,
+      total: records.length,
+      offset,
+      limit,
+      records: records.slice(offset, offset + limit),
+    })
+  } catch (error) {
+    logger.error("Error querying verifications", { error })
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+})
@@ -1,215 +1,551 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { checkAltAccounts, getFingerprints, recordAltSighting } from "@/lib/alt-detection"
+import { apiFailure } from "@/lib/api-response"
+import { recordVerification, type VerificationAttempt, type VerificationOutcome } from "@/lib/audit-log"
+import { captchaErrorCode, describeCaptchaErrors, getCaptchaProvider, getStepUpProvider } from "@/lib/captcha/server"
+import { getClientIp, isIpPrivacyMode, protectIp } from "@/lib/client-ip"
+import { deliverEvent } from "@/lib/delivery"
+import { applyVerifiedRoles, DiscordApiError } from "@/lib/discord"
+import { needsDiscordSignIn, readDiscordSession } from "@/lib/discord-oauth"
+import { getGuildPolicy } from "@/lib/guild-policy"
+import { evaluateIpRules, lookupIp } from "@/lib/ip-intel"
+import { getRequestId, logger } from "@/lib/logger"
+import {
+  captchaErrorCodes,
+  captchaMismatches,
+  recaptchaScores,
+  secondsSince,
+  siteverifyDuration,
+  verificationAttempts,
+  verificationErrorCodes,
+  webhookFailures,
+} from "@/lib/metrics"
+import { checkRateLimits, consumeCaptchaToken, type RateLimitResult } from "@/lib/rate-limit"
+import { REQUEST_ID_HEADER, withRequestContext } from "@/lib/request-context"
+import {
+  claimVerificationLink,
+  releaseVerificationLink,
+  type VerificationLink,
+  verificationLinkErrorCodes,
+  verificationLinkErrorMessages,
+  verifyVerificationLinkToken,
+} from "@/lib/verification-link"
+import {
+  consumeVerificationSession,
+  createStepUpSession,
+  verificationSessionErrorCodes,
+  verificationSessionErrorMessages,
+} from "@/lib/verification-session"
+import {
+  type VerifyErrorCode,
+  verifyRequestSchema,
+  type VerifyResponse,
+  type VerifyStage,
+} from "@/lib/verify-api"
 
-export async function POST(request: NextRequest) {
-  // Authorization check
-  const authHeader = request.headers.get("authorization") || ""
-  const expectedToken = process.env.DISCORD_API_KEY
-  if (!expectedToken) {
-    console.error("DISCORD_API_KEY not set in environment")
-    return NextResponse.json({ success: false, error: "Server configuration error" }, { status: 500 })
+type StageReporter = (stage: VerifyStage) => void
+
+function rateLimitedResponse(result: Extract<RateLimitResult, { limited: true }>) {
+  logger.warn("Rate limit exceeded", { scope: result.scope, retryAfter: result.retryAfter })
+  const response = apiFailure("RATE_LIMITED", "Too many verification attempts - please wait and try again", 429, {
+    retryAfter: result.retryAfter,
+  })
+  response.headers.set("Retry-After", String(result.retryAfter))
+  return response
+}
+
+// Every attempt ends up in the audit log, whichever way it went
+async function finishAttempt(attempt: VerificationAttempt, response: Response) {
+  const body = await response.clone().json().catch(() => ({}))
+  const outcome: VerificationOutcome = body.success
+    ? "verified"
+    : body.code === "STEP_UP_REQUIRED"
+      ? "step_up"
+      : body.code === "RATE_LIMITED"
+        ? "rate_limited"
+        : "failed"
+  await recordVerification(attempt, {
+    outcome,
+    status: response.status,
+    reason: body.success ? null : body.error || null,
+    code: body.success ? null : body.code || null,
+  }).catch((auditError) => {
+    logger.error("Failed to record verification attempt", { error: auditError })
+  })
+  verificationAttempts.inc({ guild: attempt.guild, outcome })
+  if (!body.success && body.code) {
+    verificationErrorCodes.inc({ guild: attempt.guild, code: body.code })
+  }
+  for (const code of attempt.errorCodes || []) {
+    captchaErrorCodes.inc({ guild: attempt.guild, code })
+  }
+  return body
+}
+
+/**
+ * Clients sending `Accept: text/event-stream` (the verification page) get each stage as it
+ * starts, then the outcome as a `result` event; everyone else gets the plain JSON response.
+ */
+export const POST = withRequestContext(async (request: NextRequest) => {
+  const attempt: VerificationAttempt = {}
+
+  if (!request.headers.get("accept")?.includes("text/event-stream")) {
+    const response = await verify(request, attempt, () => {})
+    await finishAttempt(attempt, response)
+    return response
   }
-  if (!authHeader.startsWith("Bearer ") || authHeader.slice(7) !== expectedToken) {
-    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+
+  const encoder = new TextEncoder()
+  // Cleared once the client goes away. Verification carries on regardless: a user who has
+  // already been given their role must not be recorded as failed because the tab closed
+  let open = true
+  request.signal.addEventListener("abort", () => {
+    open = false
+  })
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (!open) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          open = false
+        }
+      }
+
+      const response = await verify(request, attempt, (stage) => send("stage", { stage }))
+      const body = await finishAttempt(attempt, response)
+      send("result", { status: response.status, body })
+      if (open) {
+        try {
+          controller.close()
+        } catch {
+          open = false
+        }
+      }
+    },
+    cancel() {
+      open = false
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      // Stops nginx-style proxies from buffering the stream until it ends
+      "X-Accel-Buffering": "no",
+    },
+  })
+})
+
+async function verify(request: NextRequest, attempt: VerificationAttempt, reportStage: StageReporter) {
+  // DISCORD_API_KEY is only used server-to-server; browsers authenticate with a session nonce
+  if (!process.env.DISCORD_API_KEY) {
+    logger.error("DISCORD_API_KEY not set in environment")
+    return apiFailure("SERVER_MISCONFIGURED", "Server configuration error", 500)
   }
+  let claimedLink: VerificationLink | null = null
+  let verified = false
   try {
-    const { id, captcha, guild, guild_name, guild_icon, userData } = await request.json()
-    const user_ip = userData?.ip || "unknown"
+    // Resolved through the trusted proxy chain; whatever IP the page reports is ignored
+    const clientIp = getClientIp(request)
+    // What gets stored, logged and forwarded: the IP itself or, in privacy mode, its salted hash
+    const user_ip = protectIp(clientIp)
+    attempt.ip = user_ip
+    attempt.userAgent = request.headers.get("user-agent")
+
+    // Per-IP limit runs first so floods are turned away before any parsing or lookups
+    const ipLimit = await checkRateLimits({ ip: user_ip })
+    if (ipLimit.limited) {
+      return rateLimitedResponse(ipLimit)
+    }
+
+    const parsed = verifyRequestSchema.safeParse(await request.json().catch(() => null))
+    if (!parsed.success) {
+      logger.warn("Invalid verification request", { fields: parsed.error.issues.map((issue) => issue.path.join(".")) })
+      return apiFailure("INVALID_REQUEST", "Invalid verification request", 400)
+    }
+    const { token, nonce, captcha, stepUpToken, userData } = parsed.data
+    reportStage("token")
+
+    // Identity and guild come only from the signed link, never from the request body
+    const linkResult = await verifyVerificationLinkToken(token)
+    if (!linkResult.valid) {
+      logger.warn("Verification link rejected", { reason: linkResult.reason })
+      return apiFailure(
+        verificationLinkErrorCodes[linkResult.reason],
+        verificationLinkErrorMessages[linkResult.reason],
+        linkResult.reason === "used" ? 409 : 400,
+      )
+    }
 
-    console.log("Verification request received:", {
+    attempt.link = linkResult.link.jti
+    attempt.guild = linkResult.link.guild
+    attempt.guild_name = linkResult.link.guild_name
+    attempt.user = linkResult.link.id
+    attempt.username = linkResult.link.username
+
+    const { guild, guild_name, guild_icon } = linkResult.link
+    const policy = await getGuildPolicy(guild)
+    attempt.threshold = policy.threshold
+    attempt.delivery = policy.delivery
+
+    // With Discord sign-in required, the account comes from the OAuth session, not the link
+    const discordSession = readDiscordSession(request)
+    const id = policy.checks.oauth && discordSession ? discordSession.userId : linkResult.link.id
+    const username = policy.checks.oauth && discordSession ? discordSession.username : linkResult.link.username
+    attempt.user = id
+    attempt.username = username
+
+    // Counted against the account actually verifying, so fresh links for it share one budget
+    const subjectLimit = await checkRateLimits({ user: id, guild })
+    if (subjectLimit.limited) {
+      return rateLimitedResponse(subjectLimit)
+    }
+
+    const session = await consumeVerificationSession(nonce, linkResult.link)
+    if (!session.valid) {
+      logger.warn("Verification session rejected", { reason: session.reason })
+      return apiFailure(
+        verificationSessionErrorCodes[session.reason],
+        verificationSessionErrorMessages[session.reason],
+        401,
+      )
+    }
+    attempt.stepUp = Boolean(session.stepUp)
+
+    if (needsDiscordSignIn(discordSession, guild, policy.checks)) {
+      logger.warn("Verification attempted without the required Discord sign-in")
+      return apiFailure("SIGN_IN_REQUIRED", "Please sign in with Discord to verify", 401)
+    }
+    if (policy.checks.oauth && policy.checks.guildMembership && !discordSession?.guilds[guild]) {
+      logger.warn("Signed-in user is not a member of the guild", { user: discordSession?.userId, guild })
+      return apiFailure("NOT_GUILD_MEMBER", "You are not a member of this Discord server.", 403)
+    }
+
+    logger.info("Verification request received", {
+      link: linkResult.link.jti,
+      signedIn: discordSession ? "yes" : "no",
       id: id ? "present" : "missing",
       captcha: captcha ? "present" : "missing",
+      stepUp: session.stepUp ? (stepUpToken ? "present" : "missing") : "not required",
       guild: guild ? "present" : "missing",
       guild_name: guild_name || "not provided",
       userData: userData ? "present" : "missing",
-      user_ip: user_ip || "not provided",
+      user_ip,
     })
 
-    if (!captcha) {
-      console.error("No captcha token provided")
-      return NextResponse.json({ success: false, error: "No captcha token provided" }, { status: 400 })
+    const ipIntel = await lookupIp(clientIp)
+    const ipDecision = evaluateIpRules(ipIntel, policy.ipRules)
+    attempt.country = ipIntel.country
+    attempt.asn = ipIntel.asn
+    attempt.ipFlags = ipDecision.reasons
+    if (ipDecision.action === "deny") {
+      logger.warn("IP rules denied verification", { guild, reasons: ipDecision.reasons })
+      return apiFailure(
+        "IP_DENIED",
+        "Verification from your network or location is not allowed on this server.",
+        403,
+      )
+    }
+    if (ipDecision.action === "flag") {
+      logger.warn("IP rules flagged verification", { guild, reasons: ipDecision.reasons })
+    }
+
+    // A step-up session is redeemed with the interactive challenge's token instead
+    const captchaToken = session.stepUp ? stepUpToken : captcha
+    if (!captchaToken) {
+      logger.warn("No captcha token provided")
+      return apiFailure("CAPTCHA_MISSING", "No captcha token provided", 400)
     }
 
-    if (!id) {
-      console.error("No user ID provided")
-      return NextResponse.json({ success: false, error: "No user ID provided" }, { status: 400 })
+    if (!(await claimVerificationLink(linkResult.link))) {
+      logger.warn("Verification link already being redeemed", { link: linkResult.link.jti })
+      return apiFailure("LINK_USED", verificationLinkErrorMessages.used, 409)
     }
+    claimedLink = linkResult.link
 
-    if (!process.env.RECAPTCHA_SECRET_KEY) {
-      console.error("reCAPTCHA secret key not configured")
-      return NextResponse.json({ success: false, error: "Server configuration error" }, { status: 500 })
+    // Refuse replayed captcha tokens before spending a provider call on them
+    if (!(await consumeCaptchaToken(captchaToken))) {
+      logger.warn("Captcha token replay refused")
+      return apiFailure("CAPTCHA_REPLAYED", "This captcha token has already been used - please try again", 409)
+    }
+
+    const provider = session.stepUp ? getStepUpProvider() : getCaptchaProvider(session.provider)
+    attempt.provider = provider.name
+    if (!provider.isConfigured()) {
+      logger.error("Captcha provider keys not configured", { provider: provider.name })
+      return apiFailure("SERVER_MISCONFIGURED", "Server configuration error", 500)
     }
 
     // Log token format for debugging
-    console.log("Token format check:", {
-      length: captcha.length,
-      startsCorrectly: captcha.startsWith("03A"),
-      type: typeof captcha,
+    logger.debug("Token format check", {
+      provider: provider.name,
+      length: captchaToken.length,
+      type: typeof captchaToken,
     })
 
-    // Verify reCAPTCHA with Google
-    const recaptchaPayload = new URLSearchParams({
-      secret: process.env.RECAPTCHA_SECRET_KEY,
-      response: captcha,
+    const siteverifyStartedAt = Date.now()
+    // Providers score better with the client's IP, but in privacy mode it never leaves this server
+    const remoteIp = isIpPrivacyMode() || clientIp === "unknown" ? undefined : clientIp
+    const captchaResult = await provider.verify(captchaToken, remoteIp)
+    siteverifyDuration.observe({ guild, provider: provider.name }, secondsSince(siteverifyStartedAt))
+    if (captchaResult.score !== undefined) {
+      recaptchaScores.observe({ guild, provider: provider.name }, captchaResult.score)
+    }
+    attempt.action = captchaResult.action || session.action
+    attempt.hostname = captchaResult.hostname
+    attempt.errorCodes = captchaResult.errorCodes
+    attempt.score = captchaResult.score
+    logger.info("Captcha provider response", {
+      provider: provider.name,
+      success: captchaResult.success,
+      score: captchaResult.score,
+      action: captchaResult.action || session.action,
+      hostname: captchaResult.hostname,
+      stepUp: Boolean(session.stepUp),
+      errorCodes: captchaResult.errorCodes,
     })
 
-    console.log("Sending request to Google reCAPTCHA API...")
+    if (!captchaResult.success) {
+      logger.warn("Captcha verification failed", { provider: provider.name, errorCodes: captchaResult.errorCodes })
+      return apiFailure(
+        captchaErrorCode(captchaResult.errorCodes),
+        describeCaptchaErrors(provider, captchaResult.errorCodes),
+        400,
+        { score: 0, errorCodes: captchaResult.errorCodes },
+      )
+    }
 
-    const recaptchaResponse = await fetch("https://www.google.com/recaptcha/api/siteverify", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-        "User-Agent": "Discord-Verification-Bot/1.0",
-      },
-      body: recaptchaPayload,
-    })
+    // The token must have been minted for the action this session was issued for
+    if (policy.checks.action && provider.supportsAction && captchaResult.action !== session.action) {
+      captchaMismatches.inc({ guild, check: "action" })
+      logger.warn("Captcha action mismatch", {
+        provider: provider.name,
+        expected: session.action,
+        actual: captchaResult.action,
+      })
+      return apiFailure("CAPTCHA_ACTION_MISMATCH", `${provider.label} action mismatch`, 400, {
+        score: captchaResult.score || 0,
+      })
+    }
 
-    if (!recaptchaResponse.ok) {
-      console.error(`reCAPTCHA API returned ${recaptchaResponse.status}: ${recaptchaResponse.statusText}`)
-      throw new Error(`reCAPTCHA API returned ${recaptchaResponse.status}`)
+    // Hostnames are case-insensitive; a token without one never matches a non-empty allowlist
+    const hostname = captchaResult.hostname?.toLowerCase() || ""
+    if (
+      policy.checks.hostname &&
+      policy.allowedHostnames.length > 0 &&
+      !policy.allowedHostnames.some((allowed) => allowed.toLowerCase() === hostname)
+    ) {
+      captchaMismatches.inc({ guild, check: "hostname" })
+      logger.warn("Captcha hostname not allowed", { provider: provider.name, hostname: captchaResult.hostname, guild })
+      return apiFailure("CAPTCHA_HOSTNAME_MISMATCH", `${provider.label} hostname not allowed`, 400, {
+        score: captchaResult.score || 0,
+      })
     }
 
-    const recaptchaData = await recaptchaResponse.json()
-    console.log("reCAPTCHA API response:", {
-      success: recaptchaData.success,
-      score: recaptchaData.score,
-      action: recaptchaData.action,
-      hostname: recaptchaData.hostname,
-      errorCodes: recaptchaData["error-codes"],
-    })
+    // Stale tokens are refused even when the provider still honours them; one without a timestamp can't be aged
+    const challengedAt = captchaResult.challengeTs ? Date.parse(captchaResult.challengeTs) : NaN
+    const tokenAge = Number.isNaN(challengedAt) ? null : Math.max(0, Math.round((Date.now() - challengedAt) / 1000))
+    attempt.tokenAge = tokenAge
+    if (policy.checks.tokenAge && (tokenAge === null || tokenAge > policy.maxTokenAgeSeconds)) {
+      captchaMismatches.inc({ guild, check: "token_age" })
+      logger.warn("Captcha token too old", {
+        provider: provider.name,
+        challengeTs: captchaResult.challengeTs,
+        tokenAge,
+        maxTokenAgeSeconds: policy.maxTokenAgeSeconds,
+      })
+      return apiFailure("CAPTCHA_TOKEN_TOO_OLD", `${provider.label} token is too old - please try again`, 400, {
+        score: captchaResult.score || 0,
+      })
+    }
+
+    // Check score threshold; pass/fail providers report no score and skip this.
+    // A solved step-up challenge carries the borderline score of the first token.
+    const score = session.stepUp ? session.stepUp.score : captchaResult.score
+    const threshold = policy.threshold
+    attempt.score = score
 
-    if (!recaptchaData.success) {
-      console.error("reCAPTCHA verification failed:", recaptchaData["error-codes"])
-
-      // Provide more specific error messages
-      let errorMessage = "reCAPTCHA verification failed"
-      const errorCodes = recaptchaData["error-codes"] || []
-
-      if (errorCodes.includes("missing-input-secret")) {
-        errorMessage = "Server configuration error: missing secret"
-      } else if (errorCodes.includes("invalid-input-secret")) {
-        errorMessage = "Server configuration error: invalid secret"
-      } else if (errorCodes.includes("missing-input-response")) {
-        errorMessage = "Missing reCAPTCHA response"
-      } else if (errorCodes.includes("invalid-input-response")) {
-        errorMessage = "Invalid reCAPTCHA response"
-      } else if (errorCodes.includes("browser-error")) {
-        errorMessage = "Browser compatibility issue - please try refreshing"
-      } else if (errorCodes.includes("timeout-or-duplicate")) {
-        errorMessage = "reCAPTCHA expired - please try again"
+    if (score !== undefined && !session.stepUp) {
+      logger.info("Captcha score", { provider: provider.name, score, threshold })
+
+      const stepUpProvider = getStepUpProvider()
+      if (
+        score < threshold &&
+        policy.stepUpThreshold !== null &&
+        score >= policy.stepUpThreshold &&
+        stepUpProvider.isConfigured()
+      ) {
+        logger.info("Score in step-up band, requesting challenge", {
+          score,
+          stepUpThreshold: policy.stepUpThreshold,
+          threshold,
+        })
+        const stepUp = await createStepUpSession(linkResult.link, {
+          action: session.action,
+          provider: session.provider,
+          score,
+        })
+        return apiFailure("STEP_UP_REQUIRED", "Additional verification required", 403, {
+          score: score,
+          stepUp: {
+            provider: stepUpProvider.name,
+            siteKey: stepUpProvider.getSiteKey() || "",
+            nonce: stepUp.nonce,
+            expiresAt: stepUp.expiresAt,
+          },
+        })
       }
 
-      return NextResponse.json(
-        {
-          success: false,
-          error: errorMessage,
-          score: 0,
-          errorCodes: errorCodes,
-        },
-        { status: 400 },
-      )
+      if (score < threshold) {
+        logger.info("Score below threshold", { score, threshold })
+        return apiFailure("CAPTCHA_LOW_SCORE", "Verification score too low", 400, { score: score })
+      }
     }
 
-    // Check score threshold
-    const score = recaptchaData.score || 0
-    const threshold = 0.5
+    reportStage("risk")
 
-    console.log(`reCAPTCHA score: ${score}, threshold: ${threshold}`)
-
-    if (score < threshold) {
-      console.log(`Score ${score} below threshold ${threshold}`)
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Verification score too low",
-          score: score,
-        },
-        { status: 400 },
+    // Other accounts that already verified in this guild from the same network or browser
+    const fingerprints = getFingerprints(user_ip, userData)
+    const alts = await checkAltAccounts(guild, id, fingerprints, policy.altDetection)
+    attempt.linkedAccounts = alts.linkedAccounts
+    if (alts.flagged) {
+      logger.warn("Possible alt account", { user: id, guild, linkedAccounts: alts.linkedAccounts })
+    }
+    if (alts.blocked) {
+      return apiFailure(
+        "ALT_ACCOUNT_BLOCKED",
+        "This device or network has already been used to verify other accounts on this server.",
+        403,
       )
     }
 
-    // Send verification to your Express server with manual timeout
-    try {
-      console.log(`Sending verification to Express server for user ID: ${id} in guild: ${guild_name || guild}`)
+    reportStage("delivery")
+    if (policy.delivery === "discord") {
+      // Built-in mode: grant the role ourselves through the Discord API
+      logger.info("Assigning verified role via Discord API", { user: id, guild })
 
-      // Create a timeout promise
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error("Request timeout")), 10000) // 10 second timeout
-      })
+      try {
+        const roles = await applyVerifiedRoles(guild, id, policy.discord)
+        logger.info("Discord roles applied", { user: id, guild, roles })
+      } catch (discordError) {
+        logger.error("Failed to assign verified role", { user: id, guild, error: discordError })
 
-      // Create the fetch promise - send all guild information to Express server
-      const fetchPromise = fetch("http://node.waifly.com:27482/verified", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "User-Agent": "Vercel-Verification-Service/1.0",
-          Authorization: `Bearer ${process.env.DISCORD_API_KEY}`,
-        },
-        body: JSON.stringify({
+        let errorCode: VerifyErrorCode = "DISCORD_ERROR"
+        let errorMessage = "Failed to complete verification with Discord server"
+        if (discordError instanceof DiscordApiError) {
+          if (discordError.code === 10007) {
+            errorCode = "NOT_GUILD_MEMBER"
+            errorMessage = "You are not a member of this Discord server."
+          } else if (discordError.code === 10011) {
+            errorCode = "DISCORD_ROLE_MISSING"
+            errorMessage = "The verified role configured for this server no longer exists."
+          } else if (discordError.status === 403) {
+            errorCode = "DISCORD_MISSING_PERMISSIONS"
+            errorMessage = "The bot is missing permissions to assign the verified role."
+          } else if (discordError.status === 429) {
+            errorCode = "DISCORD_RATE_LIMITED"
+            errorMessage = "Discord is rate limiting requests. Please try again shortly."
+          }
+        }
+
+        return apiFailure(errorCode, errorMessage, 500, {
+          details: discordError instanceof Error ? discordError.message : "Unknown error",
+        })
+      }
+    } else {
+      // Send verification to the downstream bot server(s)
+      logger.info("Sending verification downstream", { user: id, guild })
+
+      // Keyed by the link, so "Try Again" after a partial failure only resends to the endpoints that failed
+      const delivery = await deliverEvent(
+        "verification.completed",
+        {
           id,
           guild,
           guild_name,
           guild_icon,
-          userData,
+          userData: { ...userData, ip: user_ip, userId: id, username, guildId: guild },
           user_ip, // Add this for backward compatibility
-        }),
-      })
-
-      // Race between fetch and timeout
-      const expressResponse = await Promise.race([fetchPromise, timeoutPromise])
-
-      if (!expressResponse.ok) {
-        const errorText = await expressResponse.text()
-        console.error(`Express server returned ${expressResponse.status}: ${errorText}`)
-        throw new Error(`Express server error: ${expressResponse.status} - ${errorText}`)
-      }
-
-      const expressResult = await expressResponse.json()
-      console.log("Express server response:", expressResult)
-
-      if (!expressResult.success) {
-        throw new Error(expressResult.message || "Express server rejected verification")
-      }
+          linked_accounts: alts.linkedAccounts,
+          alt_flagged: alts.flagged,
+          ip_intel: {
+            country: ipIntel.country,
+            asn: ipIntel.asn,
+            asn_org: ipIntel.asnOrg,
+            proxy: ipIntel.proxy,
+            hosting: ipIntel.hosting,
+            flagged: ipDecision.action === "flag",
+            reasons: ipDecision.reasons,
+          },
+        },
+        { key: linkResult.link.jti },
+      )
 
-      console.log(`Successfully verified user ${id} with Express server for guild ${guild_name || guild}`)
-    } catch (expressError) {
-      console.error("Failed to notify Express server:", expressError)
+      if (!delivery.ok) {
+        const deliveryError = delivery.results.find((result) => !result.ok)?.error
+        logger.error("Failed to notify downstream server", { user: id, guild, error: deliveryError })
 
-      // Provide more specific error messages
-      let errorMessage = "Failed to complete verification with Discord server"
-      if (expressError instanceof Error) {
-        if (expressError.message.includes("timeout") || expressError.message.includes("Request timeout")) {
+        // Provide more specific error messages
+        let errorCode: VerifyErrorCode = "DOWNSTREAM_ERROR"
+        let errorMessage = "Failed to complete verification with Discord server"
+        if (deliveryError?.kind === "timeout") {
+          errorCode = "DOWNSTREAM_TIMEOUT"
           errorMessage = "Discord server is taking too long to respond. Please try again."
-        } else if (expressError.message.includes("ECONNREFUSED") || expressError.message.includes("fetch failed")) {
+        } else if (deliveryError?.kind === "network") {
+          errorCode = "DOWNSTREAM_UNREACHABLE"
           errorMessage = "Cannot connect to Discord server. Please try again later."
-        } else if (expressError.message.includes("500")) {
+        } else if (deliveryError?.kind === "http" && (deliveryError.status ?? 0) >= 500) {
           errorMessage = "Discord server encountered an error. Please try again."
-        } else if (expressError.message.includes("400")) {
+        } else if (deliveryError?.kind === "http" && deliveryError.status === 400) {
+          errorCode = "DOWNSTREAM_REJECTED"
           errorMessage = "Invalid verification request. Please try again."
+        } else if (deliveryError?.kind === "http" || deliveryError?.kind === "rejected") {
+          errorCode = "DOWNSTREAM_REJECTED"
         }
+
+        return apiFailure(errorCode, errorMessage, 500, { details: deliveryError?.message || "Unknown error" })
       }
 
-      return NextResponse.json(
-        {
-          success: false,
-          error: errorMessage,
-          details: expressError instanceof Error ? expressError.message : "Unknown error",
-        },
-        { status: 500 },
-      )
+      logger.info("Delivered verification downstream", { user: id, guild })
     }
 
+    await recordAltSighting(guild, id, fingerprints, policy.altDetection).catch((altError) => {
+      logger.error("Failed to record alt-detection fingerprints", { error: altError })
+    })
+
     // Optional: Send verification data to Discord webhook (if you still want this)
     if (process.env.DISCORD_WEBHOOK_URL) {
+      reportStage("webhook")
       try {
+        const details = [
+          `User ID: ${id}`,
+          `Guild: ${guild_name || guild}`,
+          `User IP: ${user_ip}`,
+          `Country: ${ipIntel.country || "unknown"}`,
+          `ASN: ${ipIntel.asn !== null ? `AS${ipIntel.asn}${ipIntel.asnOrg ? ` (${ipIntel.asnOrg})` : ""}` : "unknown"}`,
+          ...(ipDecision.action === "flag" ? [`⚠️ IP flagged: ${ipDecision.reasons.join(", ")}`] : []),
+          `Captcha: ${provider.label}`,
+          ...(score !== undefined ? [`Score: ${score}`] : []),
+          ...(session.stepUp ? ["Step-up challenge: passed"] : []),
+          ...(alts.linkedAccounts.length > 0
+            ? [`${alts.flagged ? "⚠️ Possible alt - linked" : "Linked"} accounts: ${alts.linkedAccounts.join(", ")}`]
+            : []),
+          `Action: ${captchaResult.action || session.action}`,
+        ]
+        const requestId = getRequestId() || ""
         const webhookPayload = {
           embeds: [
             {
               title: "✅ User Verified via Vercel",
-              description: `User ID: ${id}\nGuild: ${guild_name || guild}\nUser IP: ${user_ip}\nreCAPTCHA Score: ${score}\nAction: ${recaptchaData.action || "verify_user"}`,
+              description: details.join("\n"),
               color: 0x00ff00,
               timestamp: new Date().toISOString(),
               footer: {
-                text: "Verification completed successfully",
+                text: `Verification completed successfully · Ref ${requestId}`,
               },
               thumbnail: guild_icon ? { url: guild_icon } : undefined,
             },
@@ -219,35 +555,48 @@ export async function POST(request: NextRequest) {
         // Don't await this to avoid blocking the response
         fetch(process.env.DISCORD_WEBHOOK_URL, {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", [REQUEST_ID_HEADER]: requestId },
           body: JSON.stringify(webhookPayload),
-        }).catch((webhookError) => {
-          console.error("Discord webhook error:", webhookError)
         })
+          .then((webhookResponse) => {
+            if (!webhookResponse.ok) {
+              webhookFailures.inc({ guild })
+              logger.error("Discord webhook rejected notification", { status: webhookResponse.status })
+            }
+          })
+          .catch((webhookError) => {
+            webhookFailures.inc({ guild })
+            logger.error("Discord webhook error", { error: webhookError })
+          })
       } catch (webhookError) {
-        console.error("Discord webhook error:", webhookError)
+        webhookFailures.inc({ guild })
+        logger.error("Discord webhook error", { error: webhookError })
         // Don't fail the verification if webhook fails
       }
     }
 
-    return NextResponse.json({
+    verified = true
+    return NextResponse.json<VerifyResponse>({
       success: true,
       score: score,
-      action: recaptchaData.action,
-      hostname: recaptchaData.hostname,
+      action: captchaResult.action || session.action,
+      hostname: captchaResult.hostname,
+      stepUp: Boolean(session.stepUp),
       message: "Verification completed successfully",
       guild_name: guild_name,
-      user_ip: user_ip,
+      user_ip,
     })
   } catch (error) {
-    console.error("Verification error:", error)
-    return NextResponse.json(
-      {
-        success: false,
-        error: "Internal server error",
-        details: error instanceof Error ? error.message : "Unknown error",
-      },
-      { status: 500 },
-    )
+    logger.error("Verification error", { error })
+    return apiFailure("INTERNAL_ERROR", "Internal server error", 500, {
+      details: error instanceof Error ? error.message : "Unknown error",
+    })
+  } finally {
+    // Failed attempts hand the link back so the user can press "Try Again"
+    if (claimedLink && !verified) {
+      await releaseVerificationLink(claimedLink).catch((releaseError) => {
+        logger.error("Failed to release verification link", { error: releaseError })
+      })
+    }
   }
 }
@@ -1,342 +1,93 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useRef, useState } from "react"
 import { useSearchParams } from "next/navigation"
-import { RefreshCw } from "lucide-react"
-
-declare global {
-  interface Window {
-    grecaptcha: any
-    userIP: string
-  }
-}
-
-type VerificationState = "loading" | "analyzing" | "validating" | "success" | "error"
-
-const statusMessages = {
-  loading: "Loading…",
-  analyzing: "Analyzing activity…",
-  validating: "Verifying…",
-  success: "Verified Successfully!",
-  error: "Verification failed. Please try again.",
+import { LogIn, RefreshCw, ShieldAlert } from "lucide-react"
+import { useVerification } from "@/hooks/use-verification"
+import { defaultBranding } from "@/lib/branding"
+import { defaultLocale, formatMessage, getMessages, matchLocale } from "@/lib/i18n"
+import {
+  describeVerificationError,
+  isBooting,
+  isInProgress,
+  type ProgressState,
+  verificationStates,
+} from "@/lib/verification-machine"
+
+const progressWidths: Record<ProgressState, string> = {
+  loading: "20%",
+  token: "40%",
+  risk: "60%",
+  delivery: "80%",
+  webhook: "95%",
 }
 
-const wallpapers = [
-  "https://i.imgur.com/SZXvBGR.jpeg",
-  "https://i.postimg.cc/hPXJrGKF/warframe-wallpapers-5-v0-vg3x6ui7s4j81.png",
-  "https://i.postimg.cc/4KXWX7ZZ/img.jpg",
-  "https://i.postimg.cc/W3s8FZLc/blue-eyes-warframe-portrait-hd-warframe-2560x1440.jpg",
-]
-
-const lowQualityWallpapers = [
-  "https://i.imgur.com/SZXvBGR_d.jpg", // _d suffix for lower quality
-  "https://i.postimg.cc/hPXJrGKF/warframe-wallpapers-5-v0-vg3x6ui7s4j81_small.jpg",
-  "https://i.postimg.cc/4KXWX7ZZ/img_small.jpg",
-  "https://i.postimg.cc/W3s8FZLc/blue-eyes-warframe-portrait-hd-warframe-small.jpg",
-]
-
 export default function VerificationPage() {
-  const [state, setState] = useState<VerificationState>("loading")
   const [isVisible, setIsVisible] = useState(false)
-  const [currentMessage, setCurrentMessage] = useState("")
-  const [typewriterIndex, setTypewriterIndex] = useState(0)
-  const [siteKey, setSiteKey] = useState<string | null>(null)
-  const [configLoaded, setConfigLoaded] = useState(false)
-  const [errorDetails, setErrorDetails] = useState<string>("")
-  const [retryCount, setRetryCount] = useState(0)
-  const [countdown, setCountdown] = useState(5)
   const [selectedWallpaper, setSelectedWallpaper] = useState<string>("")
   const [imageLoaded, setImageLoaded] = useState(false)
   const [isLowEndDevice, setIsLowEndDevice] = useState(false)
   const [connectionSpeed, setConnectionSpeed] = useState<"slow" | "fast">("fast")
+  const captchaContainerRef = useRef<HTMLDivElement>(null)
   const searchParams = useSearchParams()
 
-  // Extract parameters from URL
-  const userId = searchParams.get("id")
-  const username = searchParams.get("username")
-  const guildId = searchParams.get("guild")
-  const guildName = searchParams.get("guild_name")
-  const guildIcon = searchParams.get("guild_icon")
+  // The bot hands out a single signed token; everything else is read from it server-side
+  const linkToken = searchParams.get("token")
+  const requestedLocale = searchParams.get("locale")
+  // Admins open /?preview=<guild>&state=<state> to check a guild's branding without a link
+  const previewGuild = searchParams.get("preview")
+  const previewState = verificationStates.find((name) => name === searchParams.get("state")) ?? "delivery"
 
   // Development mode check
   const isDevelopment = process.env.NODE_ENV === "development"
 
+  const { machine, retry, close } = useVerification({
+    linkToken,
+    authError: searchParams.get("auth_error"),
+    requestedLocale,
+    previewGuild,
+    previewState,
+    captchaContainer: captchaContainerRef,
+    isDevelopment,
+  })
+  const { state, link, error, countdown } = machine
+  const booting = isBooting(machine)
+
+  // Starts from ?locale= and is settled by the server once the link (and its guild) is known
+  const locale = machine.locale ?? matchLocale(requestedLocale) ?? defaultLocale
+  const t = getMessages(locale)
+  const errorDetails = error ? describeVerificationError(t, error) : ""
+  // Correlation ID of the failed request, for users to quote to server staff
+  const errorReference = error?.kind === "server" ? error.reference : null
+
+  const guildName = link?.guild_name ?? null
+  const guildIcon = link?.guild_icon ?? null
+  const branding = link?.branding ?? defaultBranding
+  const logoUrl = branding.logoUrl ?? guildIcon
+  // A guild's heading replaces both the page title and the side panel headline
+  const heading = branding.heading ? formatMessage(branding.heading, { name: guildName || "Discord" }) : null
+  const showWallpaper = !isLowEndDevice && branding.wallpapers.length > 0
+  const inProgress = isInProgress(state)
+
   // Fade in animation on mount
   useEffect(() => {
     const timer = setTimeout(() => setIsVisible(true), 100)
     return () => clearTimeout(timer)
   }, [])
 
-  // Random wallpaper selection on mount
-  useEffect(() => {
-    const wallpapersToUse = connectionSpeed === "slow" || isLowEndDevice ? lowQualityWallpapers : wallpapers
-    const randomIndex = Math.floor(Math.random() * wallpapersToUse.length)
-    setSelectedWallpaper(wallpapersToUse[randomIndex])
-  }, [connectionSpeed, isLowEndDevice])
-
-  // Countdown timer for success state
+  // Keep the document language and direction in step with the page (Arabic is right-to-left)
   useEffect(() => {
-    if (state === "success" && countdown > 0) {
-      const timer = setTimeout(() => {
-        setCountdown(countdown - 1)
-      }, 1000)
-      return () => clearTimeout(timer)
-    } else if (state === "success" && countdown === 0) {
-      // Auto-close when countdown reaches 0
-      try {
-        window.close()
-      } catch (error) {
-        console.log("Cannot close window automatically - user needs to close manually")
-        setCurrentMessage("Please close this tab to return to Discord.")
-      }
-    }
-  }, [state, countdown])
+    document.documentElement.lang = locale
+    document.documentElement.dir = t.direction
+  }, [locale, t.direction])
 
-  // Fetch reCAPTCHA configuration
+  // Random wallpaper selection, once the guild's branding is known
   useEffect(() => {
-    const fetchConfig = async () => {
-      try {
-        console.log("Fetching reCAPTCHA configuration...")
-        const response = await fetch("/api/recaptcha-config")
-        const data = await response.json()
-
-        if (data.siteKey) {
-          console.log("Site key received successfully")
-          setSiteKey(data.siteKey)
-        } else {
-          console.error("No site key received from API:", data)
-          if (isDevelopment) {
-            console.warn("Running in development mode - simulating verification")
-            setSiteKey("development-mode")
-          } else {
-            setErrorDetails("Configuration error: No site key available")
-          }
-        }
-      } catch (error) {
-        console.error("Failed to fetch reCAPTCHA config:", error)
-        if (isDevelopment) {
-          console.warn("Running in development mode - simulating verification")
-          setSiteKey("development-mode")
-        } else {
-          setErrorDetails("Failed to load verification configuration")
-        }
-      } finally {
-        setConfigLoaded(true)
-      }
-    }
-
-    fetchConfig()
-  }, [isDevelopment])
-
-  // Typewriter effect for analyzing state
-  useEffect(() => {
-    if (state === "analyzing") {
-      const message = statusMessages.analyzing
-      if (typewriterIndex < message.length) {
-        const timer = setTimeout(() => {
-          setCurrentMessage(message.slice(0, typewriterIndex + 1))
-          setTypewriterIndex(typewriterIndex + 1)
-        }, 50)
-        return () => clearTimeout(timer)
-      }
-    } else {
-      setCurrentMessage(statusMessages[state])
-      setTypewriterIndex(0)
-    }
-  }, [state, typewriterIndex])
-
-  // reCAPTCHA verification flow
-  useEffect(() => {
-    if (!configLoaded || !siteKey) return
-
-    let isComponentMounted = true
-
-    const loadRecaptcha = () => {
-      // Development mode simulation
-      if (siteKey === "development-mode") {
-        simulateVerification()
-        return
-      }
-
-      // Remove any existing reCAPTCHA scripts
-      const existingScripts = document.querySelectorAll('script[src*="recaptcha"]')
-      existingScripts.forEach((script) => script.remove())
-
-      // Check if reCAPTCHA is already loaded
-      if (window.grecaptcha) {
-        delete window.grecaptcha
-      }
-
-      console.log("Loading reCAPTCHA script with site key:", siteKey.substring(0, 10) + "...")
-
-      const script = document.createElement("script")
-      script.src = `https://www.google.com/recaptcha/api.js?render=${siteKey}`
-      script.async = true
-      script.defer = true
-
-      script.onload = () => {
-        console.log("reCAPTCHA script loaded successfully")
-        // Wait for reCAPTCHA to be fully ready
-        if (window.grecaptcha && isComponentMounted) {
-          window.grecaptcha.ready(() => {
-            console.log("reCAPTCHA is ready")
-            if (isComponentMounted) {
-              // Add a small delay to ensure everything is initialized
-              setTimeout(() => {
-                if (isComponentMounted) {
-                  executeRecaptcha()
-                }
-              }, 1000)
-            }
-          })
-        }
-      }
-
-      script.onerror = (error) => {
-        console.error("Failed to load reCAPTCHA script:", error)
-        if (isComponentMounted) {
-          setErrorDetails("Failed to load reCAPTCHA script")
-          setState("error")
-        }
-      }
-
-      document.head.appendChild(script)
-    }
-
-    const simulateVerification = () => {
-      if (!isComponentMounted) return
-
-      console.log("Simulating verification in development mode")
-      setTimeout(() => {
-        if (isComponentMounted) setState("analyzing")
-      }, 1500)
-
-      setTimeout(() => {
-        if (isComponentMounted) setState("validating")
-      }, 3000)
-
-      setTimeout(() => {
-        if (isComponentMounted) setState("success")
-      }, 4500)
-    }
-
-    const executeRecaptcha = () => {
-      if (!window.grecaptcha || !isComponentMounted) {
-        console.error("reCAPTCHA not available for execution")
-        return
-      }
-
-      try {
-        console.log("Executing reCAPTCHA...")
-        window.grecaptcha.ready(() => {
-          if (!isComponentMounted) return
-
-          window.grecaptcha
-            .execute(siteKey, {
-              action: "verify_user",
-            })
-            .then((token: string) => {
-              console.log("reCAPTCHA token generated:", token ? "✓" : "✗")
-              if (isComponentMounted && token) {
-                verifyToken(token)
-              } else if (isComponentMounted) {
-                setErrorDetails("Failed to generate reCAPTCHA token")
-                setState("error")
-              }
-            })
-            .catch((error: any) => {
-              console.error("reCAPTCHA execution error:", error)
-              if (isComponentMounted) {
-                setErrorDetails(`reCAPTCHA execution failed: ${error.message || "Unknown error"}`)
-                setState("error")
-              }
-            })
-        })
-      } catch (error) {
-        console.error("reCAPTCHA error:", error)
-        if (isComponentMounted) {
-          setErrorDetails(`reCAPTCHA error: ${error instanceof Error ? error.message : "Unknown error"}`)
-          setState("error")
-        }
-      }
-    }
-
-    const verifyToken = async (token: string) => {
-      if (!isComponentMounted) return
-
-      try {
-        console.log("Starting token verification...")
-
-        // Transition through states
-        setTimeout(() => {
-          if (isComponentMounted) setState("analyzing")
-        }, 1500)
-
-        setTimeout(() => {
-          if (isComponentMounted) setState("validating")
-        }, 3500)
-
-        const response = await fetch("/api/verify", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${process.env.NEXT_PUBLIC_DISCORD_API_KEY || ""}`,
-          },
-          body: JSON.stringify({
-            id: userId,
-            captcha: token,
-            guild: guildId,
-            guild_name: guildName,
-            guild_icon: guildIcon,
-            userData: {
-              userId: userId,
-              username: username,
-              guildId: guildId,
-              ip: (window as any).userIP || "unknown",
-              userAgent: navigator.userAgent,
-              timestamp: new Date().toISOString(),
-              // Add any other user data fields your Express server expects
-            },
-          }),
-        })
-
-        const result = await response.json()
-        console.log("Verification result:", result)
-
-        setTimeout(() => {
-          if (!isComponentMounted) return
-
-          if (result.success) {
-            setState("success")
-            setCountdown(5) // Reset countdown when success state is reached
-          } else {
-            setErrorDetails(result.error || result.details || "Verification failed")
-            setState("error")
-          }
-        }, 5000)
-      } catch (error) {
-        console.error("Verification error:", error)
-        setTimeout(() => {
-          if (isComponentMounted) {
-            setErrorDetails(`Network error: ${error instanceof Error ? error.message : "Unknown error"}`)
-            setState("error")
-          }
-        }, 5000)
-      }
-    }
-
-    // Start the process
-    const timer = setTimeout(() => {
-      if (isComponentMounted) {
-        loadRecaptcha()
-      }
-    }, 500)
-
-    return () => {
-      isComponentMounted = false
-      clearTimeout(timer)
-    }
-  }, [configLoaded, siteKey, userId, guildId, guildName, guildIcon, retryCount])
+    if (booting || branding.wallpapers.length === 0) return
+    const wallpaper = branding.wallpapers[Math.floor(Math.random() * branding.wallpapers.length)]
+    const useLowQuality = connectionSpeed === "slow" || isLowEndDevice
+    setSelectedWallpaper(useLowQuality ? wallpaper.lowQualityUrl ?? wallpaper.url : wallpaper.url)
+  }, [booting, branding.wallpapers, connectionSpeed, isLowEndDevice])
 
   // Device capability detection
   useEffect(() => {
@@ -369,47 +120,6 @@ export default function VerificationPage() {
     setConnectionSpeed(detectConnectionSpeed())
   }, [])
 
-  // IP collection
-  useEffect(() => {
-    const collectUserIP = async () => {
-      try {
-        // Try multiple IP services for reliability
-        const ipServices = ["https://api.ipify.org?format=json", "https://ipapi.co/json/", "https://api.ip.sb/jsonip"]
-
-        for (const service of ipServices) {
-          try {
-            const response = await fetch(service)
-            const data = await response.json()
-            const ip = data.ip || data.query
-            if (ip) {
-              console.log("User IP collected:", ip)
-              // Store IP for later use in verification
-              window.userIP = ip
-              break
-            }
-          } catch (serviceError) {
-            console.warn(`IP service ${service} failed:`, serviceError)
-            continue
-          }
-        }
-      } catch (error) {
-        console.warn("Failed to collect IP:", error)
-        // Fallback - try to get IP from request headers via API
-        try {
-          const response = await fetch("/api/get-ip")
-          const data = await response.json()
-          if (data.ip) {
-            window.userIP = data.ip
-          }
-        } catch (fallbackError) {
-          console.warn("Fallback IP collection failed:", fallbackError)
-        }
-      }
-    }
-
-    collectUserIP()
-  }, [])
-
   // Progressive image loading
   useEffect(() => {
     if (selectedWallpaper && !isLowEndDevice) {
@@ -423,44 +133,20 @@ export default function VerificationPage() {
     }
   }, [selectedWallpaper, isLowEndDevice])
 
-  const handleRetry = () => {
-    console.log("Retrying verification...")
-    setState("loading")
-    setCurrentMessage("")
-    setTypewriterIndex(0)
-    setErrorDetails("")
-    setRetryCount((prev) => prev + 1)
-
-    // Clean up any existing reCAPTCHA
-    if (window.grecaptcha) {
-      delete window.grecaptcha
-    }
-
-    // Remove existing scripts
-    const existingScripts = document.querySelectorAll('script[src*="recaptcha"]')
-    existingScripts.forEach((script) => script.remove())
-  }
-
-  const handleManualClose = () => {
-    try {
-      window.close()
-    } catch (error) {
-      console.log("Cannot close window programmatically")
-    }
-  }
-
-  // Get the display title
-  const getTitle = () => {
-    if (guildName) {
-      return `${guildName} Verification`
-    }
-    return "Discord Verification"
+  // Drops the Discord session so the user can sign in with another account
+  const handleSignOut = async () => {
+    await fetch("/api/auth/discord/logout", { method: "POST" }).catch(() => {})
+    window.location.reload()
   }
 
   // Show loading state while fetching config
-  if (!configLoaded) {
+  if (booting) {
     return (
-      <div className="min-h-screen bg-white dark:bg-gray-900 flex items-center justify-center">
+      <div
+        lang={locale}
+        dir={t.direction}
+        className="min-h-screen bg-white dark:bg-gray-900 flex items-center justify-center"
+      >
         <div className="text-center max-w-sm mx-auto px-4">
           {/* Simplified spinner for low-end devices */}
           {isLowEndDevice ? (
@@ -476,18 +162,20 @@ export default function VerificationPage() {
             />
           )}
           <p className="text-gray-600 dark:text-gray-300 text-sm">
-            {connectionSpeed === "slow" ? "Loading (optimized for your connection)..." : "Loading..."}
+            {connectionSpeed === "slow" ? t.loadingSlow : t.loading}
           </p>
-          {connectionSpeed === "slow" && (
-            <p className="text-xs text-gray-400 mt-2">Please wait, optimizing for slower connection</p>
-          )}
+          {connectionSpeed === "slow" && <p className="text-xs text-gray-400 mt-2">{t.loadingSlowHint}</p>}
         </div>
       </div>
     )
   }
 
   return (
-    <div className={`min-h-screen bg-gray-100 flex flex-col lg:flex-row ${isLowEndDevice ? "will-change-auto" : ""}`}>
+    <div
+      lang={locale}
+      dir={t.direction}
+      className={`min-h-screen bg-gray-100 flex flex-col lg:flex-row ${isLowEndDevice ? "will-change-auto" : ""}`}
+    >
       <div className="w-full flex flex-col lg:flex-row">
         {/* Left side - Verification form */}
         <div className="w-full lg:w-[35%] p-4 sm:p-6 md:p-8 lg:p-12 flex flex-col justify-center bg-white min-h-screen lg:min-h-auto">
@@ -500,11 +188,11 @@ export default function VerificationPage() {
             {/* Header with logo/icon */}
             <div className="mb-6 sm:mb-8">
               <div className="flex items-center mb-4 sm:mb-6">
-                {guildIcon ? (
+                {logoUrl ? (
                   <div className="flex items-center space-x-2 sm:space-x-3">
                     <div className="w-6 h-6 sm:w-8 sm:h-8 rounded-lg overflow-hidden flex-shrink-0">
                       <img
-                        src={guildIcon || "/placeholder.svg"}
+                        src={logoUrl || "/placeholder.svg"}
                         alt={`${guildName} icon`}
                         className="w-full h-full object-cover"
                         onError={(e) => {
@@ -530,9 +218,9 @@ export default function VerificationPage() {
               <button className="mb-4 sm:mb-6 p-2 rounded-full hover:bg-gray-100 transition-colors hidden sm:block"></button>
 
               {/* Main heading */}
-              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2 sm:mb-3">Verify yourself</h1>
+              <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 mb-2 sm:mb-3">{heading ?? t.title}</h1>
               <p className="text-sm sm:text-base text-gray-600 mb-6 sm:mb-8 leading-relaxed">
-                {"You can use our server channels if you're verified with our security system."}
+                {branding.description ?? t.subtitle}
               </p>
             </div>
 
@@ -542,8 +230,19 @@ export default function VerificationPage() {
               <div className="text-center py-6 sm:py-8">
                 {/* Status indicator */}
                 <div className="flex justify-center mb-3 sm:mb-4">
-                  {state === "loading" || state === "analyzing" || state === "validating" ? (
-                    <div className="w-12 h-12 sm:w-16 sm:h-16 border-3 sm:border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                  {inProgress ? (
+                    <div
+                      className="w-12 h-12 sm:w-16 sm:h-16 border-3 sm:border-4 border-t-transparent rounded-full animate-spin"
+                      style={{ borderColor: branding.accentColor, borderTopColor: "transparent" }}
+                    />
+                  ) : state === "signin" ? (
+                    <div className="w-12 h-12 sm:w-16 sm:h-16 bg-indigo-600 rounded-full flex items-center justify-center">
+                      <LogIn className="w-6 h-6 sm:w-8 sm:h-8 text-white" />
+                    </div>
+                  ) : state === "challenge" ? (
+                    <div className="w-12 h-12 sm:w-16 sm:h-16 bg-amber-500 rounded-full flex items-center justify-center">
+                      <ShieldAlert className="w-6 h-6 sm:w-8 sm:h-8 text-white" />
+                    </div>
                   ) : state === "success" ? (
                     <div className="w-12 h-12 sm:w-16 sm:h-16 bg-green-500 rounded-full flex items-center justify-center">
                       <svg
@@ -569,16 +268,34 @@ export default function VerificationPage() {
                   )}
                 </div>
 
-                <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">{statusMessages[state]}</h2>
+                <h2 className="text-lg sm:text-xl font-semibold text-gray-900 mb-2">{t.status[state]}</h2>
+                {link?.discordUser && (
+                  <p className="text-xs sm:text-sm text-gray-500 mb-2">
+                    {t.signedInAs.split("{name}").map((part, index) => (
+                      <span key={index}>
+                        {index > 0 && <span className="font-medium text-gray-700">{link.discordUser?.username}</span>}
+                        {part}
+                      </span>
+                    ))}
+                    {" · "}
+                    <button onClick={handleSignOut} className="underline hover:text-gray-700">
+                      {t.notYou}
+                    </button>
+                  </p>
+                )}
+
+                {/* Widget host for providers that may need to show an interactive challenge */}
+                <div ref={captchaContainerRef} className="flex justify-center empty:hidden my-2" />
                 
 
                 {/* Progress bar */}
-                {(state === "loading" || state === "analyzing" || state === "validating") && (
+                {inProgress && (
                   <div className="w-full bg-gray-200 rounded-full h-1.5 sm:h-2 mb-4 sm:mb-6">
                     <div
-                      className="bg-green-500 h-1.5 sm:h-2 rounded-full transition-all duration-1000 ease-out"
+                      className="h-1.5 sm:h-2 rounded-full transition-all duration-1000 ease-out"
                       style={{
-                        width: state === "loading" ? "33%" : state === "analyzing" ? "66%" : "100%",
+                        backgroundColor: branding.accentColor,
+                        width: progressWidths[state],
                       }}
                     />
                   </div>
@@ -589,44 +306,70 @@ export default function VerificationPage() {
               {state === "success" && (
                 <div className="space-y-3 sm:space-y-4">
                   <button
-                    onClick={handleManualClose}
-                    className="w-full bg-green-500 hover:bg-green-600 active:bg-green-700 text-white font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl transition-colors duration-200 text-sm sm:text-base touch-manipulation"
+                    onClick={close}
+                    style={{ backgroundColor: branding.accentColor, color: branding.accentTextColor }}
+                    className="w-full hover:brightness-95 active:brightness-90 font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl transition duration-200 text-sm sm:text-base touch-manipulation"
                   >
-                    Continue
+                    {t.continue}
                   </button>
                   <p className="text-center text-xs sm:text-sm text-gray-500 px-2">
-                    This window will close automatically in {countdown} second{countdown !== 1 ? "s" : ""}.
+                    {machine.closeBlocked ? t.closeTab : t.closesIn(countdown)}
                   </p>
                 </div>
               )}
 
-              {state === "error" && (
+              {state === "signin" && (
                 <div className="space-y-3 sm:space-y-4">
                   {errorDetails && (
                     <div className="bg-red-50 border border-red-200 rounded-lg sm:rounded-xl p-3 sm:p-4">
                       <p className="text-xs sm:text-sm text-red-600 break-words">{errorDetails}</p>
                     </div>
                   )}
-                  <button
-                    onClick={handleRetry}
-                    className="w-full bg-red-500 hover:bg-red-600 active:bg-red-700 text-white font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl transition-colors duration-200 flex items-center justify-center gap-2 text-sm sm:text-base touch-manipulation"
+                  <a
+                    href={`/api/auth/discord?${new URLSearchParams({ token: linkToken || "", locale })}`}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 text-white font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl transition-colors duration-200 flex items-center justify-center gap-2 text-sm sm:text-base touch-manipulation"
                   >
-                    <RefreshCw className="w-4 h-4 sm:w-5 sm:h-5" />
-                    Try Again
-                  </button>
-                  {retryCount > 0 && <p className="text-center text-xs text-gray-500">Attempt {retryCount + 1}</p>}
+                    <LogIn className="w-4 h-4 sm:w-5 sm:h-5" />
+                    {t.signInWithDiscord}
+                  </a>
                 </div>
               )}
 
-              {(state === "loading" || state === "analyzing" || state === "validating") && (
+              {state === "error" && (
+                <div className="space-y-3 sm:space-y-4">
+                  {errorDetails && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg sm:rounded-xl p-3 sm:p-4">
+                      <p className="text-xs sm:text-sm text-red-600 break-words">{errorDetails}</p>
+                      {errorReference && (
+                        <p className="mt-1 text-[10px] sm:text-xs text-red-400 font-mono break-all">
+                          {t.reference}: {errorReference}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                  {/* A rejected link cannot be retried - the user needs a fresh one from the bot */}
+                  {link && !machine.preview && (
+                    <button
+                      onClick={retry}
+                      className="w-full bg-red-500 hover:bg-red-600 active:bg-red-700 text-white font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl transition-colors duration-200 flex items-center justify-center gap-2 text-sm sm:text-base touch-manipulation"
+                    >
+                      <RefreshCw className="w-4 h-4 sm:w-5 sm:h-5" />
+                      {t.tryAgain}
+                    </button>
+                  )}
+                  {machine.attempt > 1 && <p className="text-center text-xs text-gray-500">{t.attempt(machine.attempt)}</p>}
+                </div>
+              )}
+
+              {inProgress && (
                 <div className="w-full bg-gray-200 text-gray-400 font-semibold py-3 sm:py-4 px-4 sm:px-6 rounded-xl sm:rounded-2xl cursor-not-allowed text-sm sm:text-base">
-                  Please wait...
+                  {t.pleaseWait}
                 </div>
               )}
 
               {/* Footer help text */}
               <p className="text-center text-xs sm:text-sm text-gray-300 px-2 leading-relaxed">
-                Copyright © 2025 all rights reserved.
+                {branding.footer ?? t.copyright}
               </p>
             </div>
           </div>
@@ -635,7 +378,7 @@ export default function VerificationPage() {
         {/* Right side - Image from screenshot - Hidden on mobile and small tablets */}
         <div className="hidden lg:block lg:w-[65%] relative">
           {/* Progressive background loading */}
-          {!isLowEndDevice && (
+          {showWallpaper && (
             <>
               {/* Placeholder background while image loads */}
               {!imageLoaded && (
@@ -644,7 +387,7 @@ export default function VerificationPage() {
                   <div className="absolute inset-0 flex items-center justify-center">
                     <div className="text-white/60 text-center">
                       <div className="w-8 h-8 border-2 border-white/30 border-t-white/60 rounded-full animate-spin mx-auto mb-2" />
-                      <p className="text-sm">Loading wallpaper...</p>
+                      <p className="text-sm">{t.loadingWallpaper}</p>
                     </div>
                   </div>
                 </div>
@@ -666,8 +409,8 @@ export default function VerificationPage() {
             </>
           )}
 
-          {/* Fallback for low-end devices */}
-          {isLowEndDevice && (
+          {/* Fallback for low-end devices and guilds without wallpapers */}
+          {!showWallpaper && (
             <div className="absolute inset-0 bg-gradient-to-br from-indigo-500 to-purple-600">
               <div className="absolute inset-0 bg-black/20"></div>
             </div>
@@ -682,25 +425,26 @@ export default function VerificationPage() {
                     isLowEndDevice ? "text-xl xl:text-2xl" : "text-2xl xl:text-4xl"
                   }`}
                 >
-                  Verification system developed by DevNest to protect {guildName || "Discord"} members from hackers and
-                  spammers
+                  {heading ?? formatMessage(t.sidePanelHeadline, { name: guildName || "Discord" })}
                 </h1>
-                <div className="text-white">
-                  <p
-                    className={`font-semibold drop-shadow-md ${
-                      isLowEndDevice ? "text-sm xl:text-base" : "text-base xl:text-lg"
-                    }`}
-                  >
-                    Server Admin
-                  </p>
-                  <p
-                    className={`text-white/80 drop-shadow-md ${
-                      isLowEndDevice ? "text-xs xl:text-sm" : "text-sm xl:text-base"
-                    }`}
-                  >
-                    Dev.Raven
-                  </p>
-                </div>
+                {branding.credits.map((credit, index) => (
+                  <div key={index} className="text-white mb-3 last:mb-0">
+                    <p
+                      className={`font-semibold drop-shadow-md ${
+                        isLowEndDevice ? "text-sm xl:text-base" : "text-base xl:text-lg"
+                      }`}
+                    >
+                      {credit.role ?? t.serverAdmin}
+                    </p>
+                    <p
+                      className={`text-white/80 drop-shadow-md ${
+                        isLowEndDevice ? "text-xs xl:text-sm" : "text-sm xl:text-base"
+                      }`}
+                    >
+                      {credit.name}
+                    </p>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { readVerifyStream } from "@/hooks/use-verification"
+import type { VerifyStage } from "@/lib/verify-api"
+
+// An event-stream response delivered in the given chunks, as a proxy might split it
+function streamResponse(chunks: string[]) {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } })
+}
+
+const frame = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+
+async function read(response: Response) {
+  const stages: VerifyStage[] = []
+  const body = await readVerifyStream(response, (stage) => stages.push(stage))
+  return { stages, body }
+}
+
+describe("readVerifyStream", () => {
+  it("reports each stage and resolves with the result's body", async () => {
+    const result = { success: true, message: "ok" }
+    const { stages, body } = await read(
+      streamResponse([
+        frame("stage", { stage: "token" }),
+        frame("stage", { stage: "risk" }),
+        frame("stage", { stage: "delivery" }),
+        frame("result", { status: 200, body: result }),
+      ]),
+    )
+    expect(stages).toEqual(["token", "risk", "delivery"])
+    expect(body).toEqual(result)
+  })
+
+  it("reassembles frames split across chunks", async () => {
+    const text = frame("stage", { stage: "token" }) + frame("result", { status: 409, body: { code: "LINK_USED" } })
+    const { stages, body } = await read(streamResponse([text.slice(0, 10), text.slice(10, 45), text.slice(45)]))
+    expect(stages).toEqual(["token"])
+    expect(body).toEqual({ code: "LINK_USED" })
+  })
+
+  it("skips stages it does not know", async () => {
+    const { stages } = await read(
+      streamResponse([frame("stage", { stage: "teleport" }), frame("result", { status: 200, body: null })]),
+    )
+    expect(stages).toEqual([])
+  })
+
+  it("resolves with null when the stream ends without a result", async () => {
+    const { stages, body } = await read(streamResponse([frame("stage", { stage: "token" })]))
+    expect(stages).toEqual(["token"])
+    expect(body).toBeNull()
+  })
+
+  it("reads a plain JSON answer as it is", async () => {
+    const failure = { success: false, code: "RATE_LIMITED", error: "Too many verification attempts" }
+    const response = new Response(JSON.stringify(failure), {
+      status: 429,
+      headers: { "Content-Type": "application/json" },
+    })
+    const { stages, body } = await read(response)
+    expect(stages).toEqual([])
+    expect(body).toEqual(failure)
+  })
+
+  it("resolves with null for a body that is not JSON", async () => {
+    const { body } = await read(new Response("<html>Bad Gateway</html>", { status: 502 }))
+    expect(body).toBeNull()
+  })
+})
@@ -0,0 +1,384 @@
+import { type Dispatch, type RefObject, useCallback, useEffect, useReducer } from "react"
+import { type CaptchaClient, loadCaptchaClient, unloadCaptchaScripts } from "@/lib/captcha/client"
+import {
+  initialVerificationMachine,
+  type VerificationEvent,
+  verificationReducer,
+  type VerificationState,
+} from "@/lib/verification-machine"
+import {
+  parseApiResponse,
+  sessionResponseSchema,
+  verificationLinkResponseSchema,
+  type VerifyRequest,
+  verifyResponseSchema,
+  verifyResultEventSchema,
+  type VerifyStage,
+  verifyStageEventSchema,
+  verifyStages,
+} from "@/lib/verify-api"
+
+// Stand-in site key when no captcha is configured in development; the flow is simulated
+const DEVELOPMENT_SITE_KEY = "development-mode"
+
+// How long the page waits for /api/verify before giving up on it
+const VERIFY_TIMEOUT_MS = 60_000
+
+export interface VerificationOptions {
+  // The signed link the bot handed out
+  linkToken: string | null
+  authError: string | null
+  requestedLocale: string | null
+  // Guild whose branding an admin is previewing, and the state to show it in
+  previewGuild: string | null
+  previewState: VerificationState
+  // Host element for providers that render a widget
+  captchaContainer: RefObject<HTMLDivElement | null>
+  isDevelopment: boolean
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal.addEventListener("abort", () => clearTimeout(timer))
+  })
+}
+
+/**
+ * Reads /api/verify's event stream, passing each stage on as it arrives, and resolves with the
+ * final result's body. Plain JSON answers (proxies, unhandled errors) are read as they are.
+ */
+export async function readVerifyStream(response: Response, onStage: (stage: VerifyStage) => void): Promise<unknown> {
+  if (!response.body || !response.headers.get("content-type")?.includes("text/event-stream")) {
+    return response.json().catch(() => null)
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return null
+    buffer += decoder.decode(value, { stream: true })
+
+    const frames = buffer.split("\n\n")
+    buffer = frames.pop() ?? ""
+    for (const frame of frames) {
+      const event = frame.match(/^event: (.*)$/m)?.[1]
+      const data = JSON.parse(frame.match(/^data: (.*)$/m)?.[1] ?? "null")
+      if (event === "stage") {
+        const stage = verifyStageEventSchema.safeParse(data)
+        if (stage.success) onStage(stage.data.stage)
+      } else if (event === "result") {
+        reader.cancel().catch(() => {})
+        return verifyResultEventSchema.safeParse(data).data?.body ?? null
+      }
+    }
+  }
+}
+
+// Each attempt gets its own server-issued nonce, bound to this link and the captcha action
+async function startSession(linkToken: string | null, signal: AbortSignal, dispatch: Dispatch<VerificationEvent>) {
+  try {
+    const response = await fetch("/api/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token: linkToken }),
+      signal,
+    })
+    const data = parseApiResponse(sessionResponseSchema, await response.json().catch(() => null))
+    if (!data.success) {
+      console.error("Failed to start verification session:", data)
+      dispatch({ type: "SERVER_RESULT", result: data, reference: response.headers.get("x-request-id") })
+      return null
+    }
+    return { nonce: data.nonce, action: data.action }
+  } catch (error) {
+    if (signal.aborted) return null
+    console.error("Verification session error:", error)
+    dispatch({ type: "CLIENT_ERROR", key: "network" })
+    return null
+  }
+}
+
+// Sends a captcha (or step-up) token and follows the server's stages until the result arrives
+async function submitVerification(
+  request: { linkToken: string | null; token: string; nonce: string; isStepUp: boolean },
+  signal: AbortSignal,
+  dispatch: Dispatch<VerificationEvent>,
+) {
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  signal.addEventListener("abort", abort)
+  let timedOut = false
+  const timer = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, VERIFY_TIMEOUT_MS)
+
+  try {
+    const response = await fetch("/api/verify", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        // Ask for the stage-by-stage event stream instead of a single JSON response
+        Accept: "text/event-stream",
+      },
+      body: JSON.stringify({
+        token: request.linkToken || "",
+        nonce: request.nonce,
+        ...(request.isStepUp ? { stepUpToken: request.token } : { captcha: request.token }),
+        userData: {
+          userAgent: navigator.userAgent,
+          // Device signals the server hashes to link accounts verifying from the same browser
+          language: navigator.language,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          screen: `${window.screen.width}x${window.screen.height}x${window.screen.colorDepth}`,
+          platform: navigator.platform,
+          hardwareConcurrency: navigator.hardwareConcurrency,
+          timestamp: new Date().toISOString(),
+        },
+      } satisfies VerifyRequest),
+      signal: controller.signal,
+    })
+
+    const body = await readVerifyStream(response, (stage) => dispatch({ type: "STAGE_REACHED", stage }))
+    const result = parseApiResponse(verifyResponseSchema, body)
+    console.log("Verification result:", result)
+    dispatch({ type: "SERVER_RESULT", result, reference: response.headers.get("x-request-id") })
+  } catch (error) {
+    if (timedOut) {
+      dispatch({ type: "TIMEOUT" })
+    } else if (!signal.aborted) {
+      console.error("Verification error:", error)
+      dispatch({ type: "CLIENT_ERROR", key: "network" })
+    }
+  } finally {
+    clearTimeout(timer)
+    signal.removeEventListener("abort", abort)
+  }
+}
+
+/**
+ * Runs the verification flow for the page: checks the link, loads the captcha settings and
+ * script, starts a session, submits the token and handles step-up challenges, retries and the
+ * closing countdown. The page only renders the machine it returns.
+ */
+export function useVerification(options: VerificationOptions) {
+  const { linkToken, authError, requestedLocale, previewGuild, previewState, captchaContainer, isDevelopment } =
+    options
+  const [machine, dispatch] = useReducer(verificationReducer, initialVerificationMachine)
+
+  // Check the verification link (or load the branding preview)
+  useEffect(() => {
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const checkLink = async () => {
+      console.log("Checking verification link...")
+      const query = new URLSearchParams(previewGuild ? {} : { token: linkToken || "" })
+      if (requestedLocale) query.set("locale", requestedLocale)
+      const response = await fetch(
+        previewGuild
+          ? `/api/policies/${encodeURIComponent(previewGuild)}/preview?${query}`
+          : `/api/verification-link?${query}`,
+        { signal },
+      )
+      const data = verificationLinkResponseSchema.safeParse(await response.json().catch(() => null)).data
+      if (signal.aborted) return
+
+      if (!data?.valid) {
+        console.error("Verification link rejected:", data)
+        dispatch({
+          type: "LINK_REJECTED",
+          failure: data ?? { code: "INVALID_LINK", error: "Invalid verification link" },
+          locale: data?.locale ?? null,
+        })
+      } else if (previewGuild) {
+        dispatch({ type: "PREVIEW_LOADED", link: data, state: previewState })
+      } else {
+        dispatch({ type: "LINK_CHECKED", link: data, authError })
+      }
+    }
+
+    checkLink().catch((error) => {
+      if (signal.aborted) return
+      console.error("Failed to check verification link:", error)
+      dispatch({ type: "CLIENT_ERROR", key: "network" })
+    })
+    return () => controller.abort()
+  }, [linkToken, authError, requestedLocale, previewGuild, previewState])
+
+  // Fetch the guild's captcha settings once the link checks out (again after a failed load)
+  const needsCaptchaConfig =
+    machine.state === "loading" && machine.link !== null && machine.captcha === null && !machine.preview
+  const guild = machine.link?.guild
+  useEffect(() => {
+    if (!needsCaptchaConfig || !guild) return
+    const controller = new AbortController()
+    const { signal } = controller
+
+    const fetchConfig = async () => {
+      console.log("Fetching captcha configuration...")
+      const response = await fetch(`/api/captcha-config?guild=${encodeURIComponent(guild)}`, { signal })
+      const data = await response.json()
+
+      if (data.siteKey) {
+        console.log(`Site key received successfully (${data.provider})`)
+        dispatch({ type: "CONFIG_LOADED", captcha: { provider: data.provider, siteKey: data.siteKey } })
+      } else if (isDevelopment) {
+        console.warn("Running in development mode - simulating verification")
+        dispatch({ type: "CONFIG_LOADED", captcha: { provider: "recaptcha-v3", siteKey: DEVELOPMENT_SITE_KEY } })
+      } else {
+        console.error("No site key received from API:", data)
+        dispatch({ type: "CLIENT_ERROR", key: "noSiteKey" })
+      }
+    }
+
+    fetchConfig().catch((error) => {
+      if (signal.aborted) return
+      console.error("Failed to fetch captcha config:", error)
+      if (isDevelopment) {
+        console.warn("Running in development mode - simulating verification")
+        dispatch({ type: "CONFIG_LOADED", captcha: { provider: "recaptcha-v3", siteKey: DEVELOPMENT_SITE_KEY } })
+      } else {
+        dispatch({ type: "CLIENT_ERROR", key: "config" })
+      }
+    })
+    return () => controller.abort()
+  }, [needsCaptchaConfig, guild, isDevelopment])
+
+  // Captcha flow: runs once the settings are in, and again for every retry. Keyed on those two
+  // alone, so the state moving through the server's stages doesn't cancel the flow it came from
+  const { captcha, attempt } = machine
+  useEffect(() => {
+    if (!captcha) return
+    const controller = new AbortController()
+    const { signal } = controller
+    let client: CaptchaClient | null = null
+
+    const simulateVerification = async () => {
+      console.log("Simulating verification in development mode")
+      dispatch({ type: "TOKEN_ISSUED" })
+      for (const stage of verifyStages) {
+        await wait(1000, signal)
+        if (signal.aborted) return
+        dispatch({ type: "STAGE_REACHED", stage })
+      }
+      await wait(1000, signal)
+      if (signal.aborted) return
+      dispatch({
+        type: "SERVER_RESULT",
+        result: { success: true, stepUp: false, message: "Simulated verification", user_ip: "" },
+        reference: null,
+      })
+    }
+
+    const runCaptcha = async () => {
+      if (captcha.siteKey === DEVELOPMENT_SITE_KEY) {
+        await simulateVerification()
+        return
+      }
+      if (!captchaContainer.current) return
+
+      try {
+        client = await loadCaptchaClient(captcha, captchaContainer.current)
+        console.log(`${captcha.provider} script loaded successfully`)
+      } catch (error) {
+        console.error("Failed to load captcha script:", error)
+        if (!signal.aborted) dispatch({ type: "CLIENT_ERROR", key: "captchaLoad" })
+        return
+      }
+      if (signal.aborted) return
+
+      const session = await startSession(linkToken, signal, dispatch)
+      if (!session || signal.aborted) return
+
+      let token: string
+      try {
+        console.log("Executing captcha...")
+        token = await client.execute(session.action)
+      } catch (error) {
+        console.error("Captcha execution error:", error)
+        if (!signal.aborted) dispatch({ type: "CLIENT_ERROR", key: "captchaExecution" })
+        return
+      }
+      if (signal.aborted) return
+      if (!token) {
+        dispatch({ type: "CLIENT_ERROR", key: "captchaToken" })
+        return
+      }
+
+      dispatch({ type: "TOKEN_ISSUED" })
+      await submitVerification({ linkToken, token, nonce: session.nonce, isStepUp: false }, signal, dispatch)
+    }
+
+    runCaptcha().finally(() => {
+      client?.destroy()
+      client = null
+    })
+    return () => {
+      controller.abort()
+      client?.destroy()
+    }
+  }, [captcha, attempt, linkToken, captchaContainer])
+
+  // Borderline score: show the interactive challenge and send its token with the step-up nonce.
+  // The machine keeps stepUp until the server answers, so solving it doesn't cancel the submission
+  const { stepUp } = machine
+  useEffect(() => {
+    const container = captchaContainer.current
+    if (!stepUp || !container) return
+    const controller = new AbortController()
+    const { signal } = controller
+    let client: CaptchaClient | null = null
+
+    const runChallenge = async () => {
+      try {
+        client = await loadCaptchaClient({ provider: stepUp.provider, siteKey: stepUp.siteKey }, container)
+        if (signal.aborted) return
+        const token = await client.execute("")
+        client.destroy()
+        if (signal.aborted) return
+        dispatch({ type: "CHALLENGE_SOLVED" })
+        await submitVerification({ linkToken, token, nonce: stepUp.nonce, isStepUp: true }, signal, dispatch)
+      } catch (error) {
+        console.error("Step-up challenge error:", error)
+        if (!signal.aborted) dispatch({ type: "CLIENT_ERROR", key: "challenge" })
+      }
+    }
+
+    runChallenge()
+    return () => {
+      controller.abort()
+      client?.destroy()
+    }
+  }, [stepUp, linkToken, captchaContainer])
+
+  // Count down after a success, then try to close the tab
+  const { state, countdown, preview } = machine
+  useEffect(() => {
+    if (state !== "success" || preview) return
+    if (countdown > 0) {
+      const timer = setTimeout(() => dispatch({ type: "TICK" }), 1000)
+      return () => clearTimeout(timer)
+    }
+    window.close()
+    // Still running: the browser only lets scripts close tabs they opened
+    dispatch({ type: "CLOSE_BLOCKED" })
+  }, [state, countdown, preview])
+
+  const retry = useCallback(() => {
+    console.log("Retrying verification...")
+    // Clean up any loaded captcha scripts
+    unloadCaptchaScripts()
+    dispatch({ type: "RETRY" })
+  }, [])
+
+  const close = useCallback(() => {
+    window.close()
+    dispatch({ type: "CLOSE_BLOCKED" })
+  }, [])
+
+  return { machine, retry, close }
+}
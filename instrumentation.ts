@@ -0,0 +1,8 @@
+// Next.js calls this once per server instance on startup
+export async function register() {
+  // The purge reads and writes local files, which only the Node.js runtime can do
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startRetentionJob } = await import("@/lib/retention")
+    startRetentionJob()
+  }
+}
@@ -0,0 +1,95 @@
+import { timingSafeEqual } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { logger } from "@/lib/logger"
+import { readSignedPayload, signPayload } from "@/lib/signing"
+
+export const ADMIN_SESSION_COOKIE = "admin_session"
+
+const ADMIN_SESSION_TTL_SECONDS = 12 * 60 * 60
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+export function isAdminKey(key: string) {
+  const expectedToken = process.env.ADMIN_API_KEY
+  return Boolean(expectedToken) && safeEqual(key, expectedToken as string)
+}
+
+// Cookie sessions are signed with the admin key itself, so rotating the key logs everyone out
+function hasAdminSession(request: NextRequest, adminKey: string) {
+  const value = request.cookies.get(ADMIN_SESSION_COOKIE)?.value
+  if (!value) return false
+  const decoded = readSignedPayload<{ exp: number }>(value, adminKey)
+  return decoded.ok && typeof decoded.data?.exp === "number" && decoded.data.exp * 1000 > Date.now()
+}
+
+/**
+ * Guards admin routes with `Authorization: Bearer ${ADMIN_API_KEY}` or the dashboard's
+ * session cookie. Returns the error response to send, or null when the request may proceed.
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const expectedToken = process.env.ADMIN_API_KEY
+  if (!expectedToken) {
+    logger.error("ADMIN_API_KEY not set in environment")
+    return NextResponse.json({ success: false, error: "Server configuration error" }, { status: 500 })
+  }
+
+  const authHeader = request.headers.get("authorization") || ""
+  if (authHeader.startsWith("Bearer ") && safeEqual(authHeader.slice(7), expectedToken)) {
+    return null
+  }
+  if (hasAdminSession(request, expectedToken)) {
+    return null
+  }
+
+  return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+}
+
+/**
+ * Guards the metrics scrape. Scrapers send `Authorization: Bearer ${METRICS_TOKEN}` so they
+ * never need the admin key; without METRICS_TOKEN the route is admin-only.
+ */
+export function requireMetricsAccess(request: NextRequest): NextResponse | null {
+  const metricsToken = process.env.METRICS_TOKEN
+  if (!metricsToken) return requireAdmin(request)
+
+  const authHeader = request.headers.get("authorization") || ""
+  if (authHeader.startsWith("Bearer ") && safeEqual(authHeader.slice(7), metricsToken)) {
+    return null
+  }
+  return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+}
+
+/**
+ * Whether the request carries the admin key or session, or the metrics token. For routes
+ * that answer everyone but only show operators the details; never logs or responds itself.
+ */
+export function hasOperatorAccess(request: NextRequest) {
+  const adminKey = process.env.ADMIN_API_KEY
+  const metricsToken = process.env.METRICS_TOKEN
+  const authHeader = request.headers.get("authorization") || ""
+  const bearer = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null
+  if (adminKey && (hasAdminSession(request, adminKey) || (bearer !== null && safeEqual(bearer, adminKey)))) {
+    return true
+  }
+  return Boolean(metricsToken && bearer !== null && safeEqual(bearer, metricsToken))
+}
+
+export function setAdminSession(response: NextResponse) {
+  const exp = Math.floor(Date.now() / 1000) + ADMIN_SESSION_TTL_SECONDS
+  response.cookies.set(ADMIN_SESSION_COOKIE, signPayload({ exp }, process.env.ADMIN_API_KEY || ""), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    // Strict keeps other sites from riding the cookie into admin mutations
+    sameSite: "strict",
+    path: "/",
+    maxAge: ADMIN_SESSION_TTL_SECONDS,
+  })
+}
+
+export function clearAdminSession(response: NextResponse) {
+  response.cookies.delete(ADMIN_SESSION_COOKIE)
+}
@@ -0,0 +1,162 @@
+import { createHmac } from "crypto"
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+
+const ALT_LINKS_FILE = "alt-links.json"
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface AltDetectionConfig {
+  enabled: boolean
+  // Accounts allowed to verify from one IP or device before the next is flagged
+  maxAccounts: number
+  action: "flag" | "block"
+  // How long a verification keeps linking accounts; 0 keeps them forever
+  windowDays: number
+}
+
+// Signals the page reports about the browser, hashed together into a device fingerprint
+export interface DeviceSignals {
+  userAgent?: string
+  language?: string
+  timezone?: string
+  screen?: string
+  platform?: string
+  hardwareConcurrency?: number
+}
+
+export interface AltCheckResult {
+  flagged: boolean
+  blocked: boolean
+  // Other accounts that verified in this guild from the same IP or device
+  linkedAccounts: string[]
+}
+
+interface Sighting {
+  user: string
+  seenAt: string
+}
+
+// guild -> fingerprint -> accounts seen with it. Fingerprints are keyed hashes, never raw IPs or signals
+type AltLinksFile = Record<string, Record<string, Sighting[]>>
+
+type FingerprintKind = "ip" | "device"
+
+// Keyed with a server secret: a plain hash of an IPv4 address is reversed by trying all 2^32 of them.
+// The kind stays readable so retention can expire IP fingerprints on their own schedule
+function hash(kind: FingerprintKind, value: string) {
+  const key = process.env.IP_HASH_SALT || process.env.VERIFICATION_LINK_SECRET
+  if (!key) {
+    throw new Error("IP_HASH_SALT or VERIFICATION_LINK_SECRET must be set for alt detection")
+  }
+  return `${kind}:${createHmac("sha256", key).update(`${kind}:${value}`).digest("hex")}`
+}
+
+export function isIpFingerprint(fingerprint: string) {
+  return fingerprint.startsWith("ip:")
+}
+
+/**
+ * Fingerprints a verification is linked by: the client IP and, when the page reported
+ * enough about the browser, a device hash.
+ */
+export function getFingerprints(ip: string | null, device: DeviceSignals | null | undefined) {
+  const fingerprints: string[] = []
+  if (ip && ip !== "unknown") {
+    fingerprints.push(hash("ip", ip))
+  }
+  if (device?.userAgent) {
+    const { userAgent, language, timezone, screen, platform, hardwareConcurrency } = device
+    const signals = [userAgent, language, timezone, screen, platform, hardwareConcurrency]
+    fingerprints.push(hash("device", JSON.stringify(signals)))
+  }
+  return fingerprints
+}
+
+function isFresh(sighting: Sighting, config: AltDetectionConfig, now: number) {
+  return config.windowDays === 0 || Date.parse(sighting.seenAt) > now - config.windowDays * DAY_MS
+}
+
+export async function checkAltAccounts(
+  guild: string,
+  user: string,
+  fingerprints: string[],
+  config: AltDetectionConfig,
+): Promise<AltCheckResult> {
+  if (!config.enabled || fingerprints.length === 0) {
+    return { flagged: false, blocked: false, linkedAccounts: [] }
+  }
+
+  const links = (await readJsonFile<AltLinksFile>(ALT_LINKS_FILE, {}))[guild] || {}
+  const now = Date.now()
+  const linked = new Set<string>()
+  let flagged = false
+
+  for (const fingerprint of fingerprints) {
+    const others = new Set(
+      (links[fingerprint] || [])
+        .filter((sighting) => sighting.user !== user && isFresh(sighting, config, now))
+        .map((sighting) => sighting.user),
+    )
+    others.forEach((other) => linked.add(other))
+    // Counting this account too, would the fingerprint go over the limit?
+    if (others.size + 1 > config.maxAccounts) {
+      flagged = true
+    }
+  }
+
+  return { flagged, blocked: flagged && config.action === "block", linkedAccounts: [...linked] }
+}
+
+// Remembers a completed verification, dropping sightings that fell out of the window
+export function recordAltSighting(guild: string, user: string, fingerprints: string[], config: AltDetectionConfig) {
+  if (!config.enabled || fingerprints.length === 0) {
+    return Promise.resolve()
+  }
+
+  return updateJsonFile<AltLinksFile, void>(ALT_LINKS_FILE, {}, (file) => {
+    const now = Date.now()
+    const seenAt = new Date(now).toISOString()
+    const guildLinks = { ...file[guild] }
+
+    for (const fingerprint of fingerprints) {
+      const sightings = (guildLinks[fingerprint] || []).filter(
+        (sighting) => sighting.user !== user && isFresh(sighting, config, now),
+      )
+      guildLinks[fingerprint] = [...sightings, { user, seenAt }]
+    }
+
+    return { value: { ...file, [guild]: guildLinks }, result: undefined }
+  })
+}
+
+// Removes every sighting `matches` selects; fingerprints and guilds left empty go too
+function removeSightings(matches: (guild: string, fingerprint: string, sighting: Sighting) => boolean) {
+  return updateJsonFile<AltLinksFile, number>(ALT_LINKS_FILE, {}, (file) => {
+    let removed = 0
+    const next: AltLinksFile = {}
+    for (const [guild, links] of Object.entries(file)) {
+      const guildLinks: Record<string, Sighting[]> = {}
+      for (const [fingerprint, sightings] of Object.entries(links)) {
+        const kept = sightings.filter((sighting) => !matches(guild, fingerprint, sighting))
+        removed += sightings.length - kept.length
+        if (kept.length > 0) guildLinks[fingerprint] = kept
+      }
+      if (Object.keys(guildLinks).length > 0) next[guild] = guildLinks
+    }
+    return { value: next, result: removed }
+  })
+}
+
+// Drops sightings recorded before their cutoff; `cutoffFor` returns null to keep them
+export function purgeAltSightings(cutoffFor: (guild: string, fingerprint: string) => Date | null) {
+  return removeSightings((guild, fingerprint, sighting) => {
+    const cutoff = cutoffFor(guild, fingerprint)
+    return cutoff !== null && Date.parse(sighting.seenAt) < cutoff.getTime()
+  })
+}
+
+// Forgets a user's sightings, optionally only within one guild
+export function deleteUserAltSightings(user: string, guild?: string) {
+  return removeSightings((sightingGuild, _fingerprint, sighting) => {
+    return sighting.user === user && (!guild || sightingGuild === guild)
+  })
+}
@@ -0,0 +1,106 @@
+import { queryVerifications, type VerificationOutcome, verificationOutcomes } from "@/lib/audit-log"
+import { listOutboxEntries } from "@/lib/outbox"
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+// Ranges up to this long are charted per hour, longer ones per day
+const HOURLY_RANGE_MS = 2 * DAY_MS
+const SCORE_BUCKETS = 10
+
+export interface AnalyticsQuery {
+  guild?: string
+  from: Date
+  to: Date
+}
+
+export type TimelinePoint = { time: string } & Record<VerificationOutcome, number>
+
+export interface VerificationAnalytics {
+  guilds: { id: string; name: string | null }[]
+  interval: "hour" | "day"
+  totals: Record<VerificationOutcome, number> & { total: number; successRate: number | null }
+  timeline: TimelinePoint[]
+  scores: { range: string; verified: number; failed: number }[]
+  errorCodes: { code: string; count: number }[]
+  reasons: { reason: string; count: number }[]
+  downstream: { time: string; failed: number; pending: number }[]
+}
+
+const emptyCounts = () =>
+  Object.fromEntries(verificationOutcomes.map((outcome) => [outcome, 0])) as Record<VerificationOutcome, number>
+
+function topCounts(values: string[], limit = 10) {
+  const counts = new Map<string, number>()
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1)
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, limit)
+}
+
+/**
+ * Aggregates the audit log (and the delivery outbox) into the series the admin
+ * dashboard charts. Buckets are aligned to UTC hours or days.
+ */
+export async function buildVerificationAnalytics(query: AnalyticsQuery): Promise<VerificationAnalytics> {
+  const allRecords = await queryVerifications({ from: query.from, to: query.to })
+  const records = query.guild ? allRecords.filter((record) => record.guild === query.guild) : allRecords
+
+  const guildNames = new Map<string, string | null>()
+  for (const record of allRecords) {
+    if (record.guild && !guildNames.get(record.guild)) guildNames.set(record.guild, record.guild_name)
+  }
+
+  const interval = query.to.getTime() - query.from.getTime() <= HOURLY_RANGE_MS ? "hour" : "day"
+  const step = interval === "hour" ? HOUR_MS : DAY_MS
+  const bucketOf = (time: number) => Math.floor(time / step) * step
+
+  const timeline = new Map<number, TimelinePoint>()
+  for (let time = bucketOf(query.from.getTime()); time <= query.to.getTime(); time += step) {
+    timeline.set(time, { time: new Date(time).toISOString(), ...emptyCounts() })
+  }
+
+  const totals = emptyCounts()
+  const scores = Array.from({ length: SCORE_BUCKETS }, (_, i) => ({
+    range: `${(i / SCORE_BUCKETS).toFixed(1)}-${((i + 1) / SCORE_BUCKETS).toFixed(1)}`,
+    verified: 0,
+    failed: 0,
+  }))
+
+  for (const record of records) {
+    totals[record.outcome]++
+    const point = timeline.get(bucketOf(Date.parse(record.timestamp)))
+    if (point) point[record.outcome]++
+
+    if (record.score !== null && record.outcome !== "rate_limited") {
+      const bucket = scores[Math.min(Math.floor(record.score * SCORE_BUCKETS), SCORE_BUCKETS - 1)]
+      if (record.outcome === "verified") bucket.verified++
+      else bucket.failed++
+    }
+  }
+
+  // Rate-limited attempts never reached the captcha, so they don't count towards the success rate
+  const decided = totals.verified + totals.failed + totals.step_up
+  const total = records.length
+
+  // Deliveries that exhausted their retries; "pending" ones have not been replayed successfully yet
+  const downstream = new Map<number, { time: string; failed: number; pending: number }>()
+  for (const time of timeline.keys()) downstream.set(time, { time: new Date(time).toISOString(), failed: 0, pending: 0 })
+  for (const entry of await listOutboxEntries()) {
+    if (query.guild && entry.payload.guild !== query.guild) continue
+    const point = downstream.get(bucketOf(Date.parse(entry.createdAt)))
+    if (!point) continue
+    point.failed++
+    if (entry.status === "failed") point.pending++
+  }
+
+  return {
+    guilds: [...guildNames.entries()].map(([id, name]) => ({ id, name })),
+    interval,
+    totals: { ...totals, total, successRate: decided > 0 ? totals.verified / decided : null },
+    timeline: [...timeline.values()],
+    scores,
+    errorCodes: topCounts(records.flatMap((record) => record.errorCodes)).map(([code, count]) => ({ code, count })),
+    reasons: topCounts(
+      records.filter((record) => record.outcome === "failed" && record.reason).map((record) => record.reason as string),
+    ).map(([reason, count]) => ({ reason, count })),
+    downstream: [...downstream.values()],
+  }
+}
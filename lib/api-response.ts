@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server"
+import type { ApiFailure, VerifyErrorCode } from "@/lib/verify-api"
+
+type FailureExtras = Omit<ApiFailure, "success" | "code" | "error">
+
+// A failure in the shape the verification page and bots parse: stable code plus readable message
+export function apiFailure(code: VerifyErrorCode, error: string, status: number, extras: FailureExtras = {}) {
+  return NextResponse.json<ApiFailure>({ success: false, code, error, ...extras }, { status })
+}
@@ -0,0 +1,224 @@
+import { randomUUID } from "crypto"
+import { appendJsonLine, readJsonLines, updateJsonLines } from "@/lib/json-store"
+import type { RetentionCutoffs } from "@/lib/retention"
+
+const AUDIT_FILE = "verifications.jsonl"
+
+export type VerificationOutcome = "verified" | "failed" | "step_up" | "rate_limited"
+
+export const verificationOutcomes: VerificationOutcome[] = ["verified", "failed", "step_up", "rate_limited"]
+
+// One /api/verify attempt, successful or not
+export interface VerificationRecord {
+  id: string
+  timestamp: string
+  outcome: VerificationOutcome
+  status: number
+  // The error shown to the user and its stable code; null for successful verifications
+  reason: string | null
+  code: string | null
+  guild: string | null
+  guild_name: string | null
+  user: string | null
+  username: string | null
+  link: string | null
+  provider: string | null
+  score: number | null
+  threshold: number | null
+  action: string | null
+  hostname: string | null
+  // Seconds between the provider's challenge timestamp and the check
+  tokenAge: number | null
+  errorCodes: string[]
+  stepUp: boolean
+  // Accounts that verified from the same IP or device in this guild
+  linkedAccounts: string[]
+  delivery: string | null
+  ip: string | null
+  country: string | null
+  asn: number | null
+  // Guild IP rules the address matched, e.g. ["proxy", "country:RU"]
+  ipFlags: string[]
+  userAgent: string | null
+}
+
+// What the verify route learns about an attempt as it goes; anything unknown stays null
+export type VerificationAttempt = Partial<
+  Omit<VerificationRecord, "id" | "timestamp" | "outcome" | "status" | "reason" | "code">
+>
+
+export interface VerificationQuery {
+  guild?: string
+  user?: string
+  outcome?: VerificationOutcome
+  // Error code, e.g. CAPTCHA_HOSTNAME_MISMATCH
+  code?: string
+  // Inclusive bounds, compared against the record timestamp
+  from?: Date
+  to?: Date
+}
+
+function parseDate(value: string | null) {
+  if (!value) return undefined
+  // Plain numbers are unix timestamps in seconds, anything else goes through Date.parse
+  const time = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value)
+  return Number.isNaN(time) ? null : new Date(time)
+}
+
+// Reads ?guild=&user=&outcome=&code=&from=&to= shared by the list and export routes
+export function parseVerificationQuery(
+  params: URLSearchParams,
+): { ok: true; query: VerificationQuery } | { ok: false; error: string } {
+  const outcome = params.get("outcome")
+  if (outcome && !verificationOutcomes.includes(outcome as VerificationOutcome)) {
+    return { ok: false, error: "Invalid outcome filter" }
+  }
+
+  const from = parseDate(params.get("from"))
+  const to = parseDate(params.get("to"))
+  if (from === null || to === null) {
+    return { ok: false, error: "Invalid date range" }
+  }
+
+  return {
+    ok: true,
+    query: {
+      guild: params.get("guild") || undefined,
+      user: params.get("user") || undefined,
+      outcome: (outcome as VerificationOutcome) || undefined,
+      code: params.get("code") || undefined,
+      from,
+      to,
+    },
+  }
+}
+
+export async function recordVerification(
+  attempt: VerificationAttempt,
+  result: { outcome: VerificationOutcome; status: number; reason: string | null; code: string | null },
+) {
+  const record: VerificationRecord = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...result,
+    guild: attempt.guild ?? null,
+    guild_name: attempt.guild_name ?? null,
+    user: attempt.user ?? null,
+    username: attempt.username ?? null,
+    link: attempt.link ?? null,
+    provider: attempt.provider ?? null,
+    score: attempt.score ?? null,
+    threshold: attempt.threshold ?? null,
+    action: attempt.action ?? null,
+    hostname: attempt.hostname ?? null,
+    tokenAge: attempt.tokenAge ?? null,
+    errorCodes: attempt.errorCodes ?? [],
+    stepUp: attempt.stepUp ?? false,
+    linkedAccounts: attempt.linkedAccounts ?? [],
+    delivery: attempt.delivery ?? null,
+    ip: attempt.ip ?? null,
+    country: attempt.country ?? null,
+    asn: attempt.asn ?? null,
+    ipFlags: attempt.ipFlags ?? [],
+    userAgent: attempt.userAgent ?? null,
+  }
+  await appendJsonLine(AUDIT_FILE, record)
+  return record
+}
+
+// Matching records, newest first
+export async function queryVerifications(query: VerificationQuery = {}) {
+  const records = await readJsonLines<VerificationRecord>(AUDIT_FILE)
+  const from = query.from?.getTime() ?? -Infinity
+  const to = query.to?.getTime() ?? Infinity
+
+  return records
+    .filter((record) => {
+      if (query.guild && record.guild !== query.guild) return false
+      if (query.user && record.user !== query.user) return false
+      if (query.outcome && record.outcome !== query.outcome) return false
+      if (query.code && record.code !== query.code) return false
+      const time = Date.parse(record.timestamp)
+      return time >= from && time <= to
+    })
+    .reverse()
+}
+
+// Drops expired records and blanks the IP and user agent of records past their cutoffs
+export function purgeVerifications(cutoffs: RetentionCutoffs) {
+  const time = (date: Date | null) => date?.getTime() ?? -Infinity
+  return updateJsonLines<VerificationRecord, { deleted: number; redacted: number }>(AUDIT_FILE, (records) => {
+    let redacted = 0
+    const kept = records
+      .filter((record) => Date.parse(record.timestamp) >= time(cutoffs.deleteBefore))
+      .map((record) => {
+        const recordedAt = Date.parse(record.timestamp)
+        const dropIp = record.ip !== null && recordedAt < time(cutoffs.ipBefore)
+        const dropUserAgent = record.userAgent !== null && recordedAt < time(cutoffs.userAgentBefore)
+        if (!dropIp && !dropUserAgent) return record
+        redacted++
+        return { ...record, ip: dropIp ? null : record.ip, userAgent: dropUserAgent ? null : record.userAgent }
+      })
+    return { value: kept, result: { deleted: records.length - kept.length, redacted } }
+  })
+}
+
+// Removes every record of a user and the user from other records' linked accounts, optionally in one guild only
+export function deleteUserVerifications(user: string, guild?: string) {
+  return updateJsonLines<VerificationRecord, number>(AUDIT_FILE, (records) => {
+    const inScope = (record: VerificationRecord) => guild === undefined || record.guild === guild
+    const kept = records
+      .filter((record) => record.user !== user || !inScope(record))
+      .map((record) =>
+        inScope(record) && record.linkedAccounts.includes(user)
+          ? { ...record, linkedAccounts: record.linkedAccounts.filter((account) => account !== user) }
+          : record,
+      )
+    return { value: kept, result: records.length - kept.length }
+  })
+}
+
+const csvColumns: (keyof VerificationRecord)[] = [
+  "id",
+  "timestamp",
+  "outcome",
+  "status",
+  "reason",
+  "code",
+  "guild",
+  "guild_name",
+  "user",
+  "username",
+  "link",
+  "provider",
+  "score",
+  "threshold",
+  "action",
+  "hostname",
+  "tokenAge",
+  "errorCodes",
+  "stepUp",
+  "linkedAccounts",
+  "delivery",
+  "ip",
+  "country",
+  "asn",
+  "ipFlags",
+  "userAgent",
+]
+
+function csvCell(value: unknown) {
+  if (value === null || value === undefined) return ""
+  let text = Array.isArray(value) ? value.join(" ") : String(value)
+  // Keep spreadsheet apps from evaluating user-controlled text as a formula
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === "string") text = `'${text}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function verificationsToCsv(records: VerificationRecord[]) {
+  const lines = [csvColumns.join(",")]
+  for (const record of records) {
+    lines.push(csvColumns.map((column) => csvCell(record[column])).join(","))
+  }
+  return `${lines.join("\r\n")}\r\n`
+}
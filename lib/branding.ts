@@ -0,0 +1,72 @@
+import { z } from "zod"
+
+// Shared by the verification page and the policy store, so this must stay free of server-only imports
+
+const httpsUrlSchema = z
+  .string()
+  .max(2048)
+  .url()
+  .refine((value) => value.startsWith("https://"), "Must be an https:// URL")
+
+const hexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colours must be #rrggbb")
+
+export const wallpaperSchema = z.object({
+  url: httpsUrlSchema,
+  // Smaller variant served to slow connections; null reuses url
+  lowQualityUrl: httpsUrlSchema.nullable(),
+})
+
+export type Wallpaper = z.infer<typeof wallpaperSchema>
+
+/**
+ * How a guild's verification page looks. Text fields left null fall back to the page's
+ * translated defaults; the heading replaces both the title and the side panel headline,
+ * with `{name}` in it replaced by the guild name.
+ */
+export const brandingSchema = z.object({
+  // Side panel backgrounds, one picked at random per visit; empty shows a plain gradient
+  wallpapers: z.array(wallpaperSchema).max(20),
+  // Progress bar, spinner and primary button colour, and the text drawn on it
+  accentColor: hexColorSchema,
+  accentTextColor: hexColorSchema,
+  // Shown next to the guild name; null uses the guild's Discord icon
+  logoUrl: httpsUrlSchema.nullable(),
+  heading: z.string().min(1).max(200).nullable(),
+  description: z.string().min(1).max(500).nullable(),
+  // Lines under the heading, e.g. "Server Admin / Dev.Raven"; a null role is the translated "Server Admin"
+  credits: z
+    .array(z.object({ role: z.string().min(1).max(60).nullable(), name: z.string().min(1).max(60) }))
+    .max(5),
+  footer: z.string().min(1).max(200).nullable(),
+})
+
+export type Branding = z.infer<typeof brandingSchema>
+
+export const defaultBranding: Branding = {
+  wallpapers: [
+    {
+      url: "https://i.imgur.com/SZXvBGR.jpeg",
+      // _d suffix for lower quality
+      lowQualityUrl: "https://i.imgur.com/SZXvBGR_d.jpg",
+    },
+    {
+      url: "https://i.postimg.cc/hPXJrGKF/warframe-wallpapers-5-v0-vg3x6ui7s4j81.png",
+      lowQualityUrl: "https://i.postimg.cc/hPXJrGKF/warframe-wallpapers-5-v0-vg3x6ui7s4j81_small.jpg",
+    },
+    {
+      url: "https://i.postimg.cc/4KXWX7ZZ/img.jpg",
+      lowQualityUrl: "https://i.postimg.cc/4KXWX7ZZ/img_small.jpg",
+    },
+    {
+      url: "https://i.postimg.cc/W3s8FZLc/blue-eyes-warframe-portrait-hd-warframe-2560x1440.jpg",
+      lowQualityUrl: "https://i.postimg.cc/W3s8FZLc/blue-eyes-warframe-portrait-hd-warframe-small.jpg",
+    },
+  ],
+  accentColor: "#22c55e",
+  accentTextColor: "#ffffff",
+  logoUrl: null,
+  heading: null,
+  description: null,
+  credits: [{ role: null, name: "Dev.Raven" }],
+  footer: null,
+}
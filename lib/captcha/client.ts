@@ -0,0 +1,172 @@
+import type { AnyCaptchaProviderName, CaptchaClientConfig } from "@/lib/captcha/types"
+
+declare global {
+  interface Window {
+    grecaptcha: any
+    hcaptcha: any
+    turnstile: any
+    [callback: `__captchaOnLoad_${string}`]: (() => void) | undefined
+  }
+}
+
+// Browser side of a captcha provider: produces a token for the server to check
+export interface CaptchaClient {
+  execute(action: string): Promise<string>
+  destroy(): void
+}
+
+interface ClientProvider {
+  scriptUrl(siteKey: string, onloadCallback: string): string
+  // Global the script installs, used to tell when it is ready
+  globalName: "grecaptcha" | "hcaptcha" | "turnstile"
+  create(siteKey: string, container: HTMLElement): CaptchaClient
+}
+
+const clientProviders: Record<AnyCaptchaProviderName, ClientProvider> = {
+  "recaptcha-v3": {
+    scriptUrl: (siteKey, onload) => `https://www.google.com/recaptcha/api.js?render=${siteKey}&onload=${onload}`,
+    globalName: "grecaptcha",
+    create: (siteKey) => ({
+      execute: (action) =>
+        new Promise((resolve, reject) => {
+          window.grecaptcha.ready(() => {
+            window.grecaptcha.execute(siteKey, { action }).then(resolve, reject)
+          })
+        }),
+      destroy: () => {},
+    }),
+  },
+
+  // Step-up challenge: a visible checkbox that may escalate to an image challenge
+  "recaptcha-v2": {
+    scriptUrl: (_siteKey, onload) => `https://www.google.com/recaptcha/api.js?render=explicit&onload=${onload}`,
+    globalName: "grecaptcha",
+    create: (siteKey, container) => {
+      let widgetHost: HTMLElement | null = null
+      const removeWidget = () => {
+        widgetHost?.remove()
+        widgetHost = null
+      }
+      return {
+        execute: () =>
+          new Promise((resolve, reject) => {
+            // grecaptcha.render needs an empty element for every widget
+            removeWidget()
+            widgetHost = document.createElement("div")
+            container.appendChild(widgetHost)
+            window.grecaptcha.render(widgetHost, {
+              sitekey: siteKey,
+              callback: (token: string) => resolve(token),
+              "error-callback": () => reject(new Error("reCAPTCHA challenge failed to load")),
+              "expired-callback": () => reject(new Error("reCAPTCHA challenge expired")),
+            })
+          }),
+        destroy: removeWidget,
+      }
+    },
+  },
+
+  hcaptcha: {
+    scriptUrl: (_siteKey, onload) => `https://js.hcaptcha.com/1/api.js?render=explicit&onload=${onload}`,
+    globalName: "hcaptcha",
+    create: (siteKey, container) => {
+      const widgetId = window.hcaptcha.render(container, { sitekey: siteKey, size: "invisible" })
+      return {
+        // hCaptcha has no actions; the server skips that check for it
+        execute: async () => {
+          const { response } = await window.hcaptcha.execute(widgetId, { async: true })
+          return response
+        },
+        destroy: () => {
+          try {
+            window.hcaptcha.remove(widgetId)
+          } catch {}
+        },
+      }
+    },
+  },
+
+  turnstile: {
+    scriptUrl: (_siteKey, onload) =>
+      `https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit&onload=${onload}`,
+    globalName: "turnstile",
+    create: (siteKey, container) => {
+      let widgetId: string | undefined
+      const removeWidget = () => {
+        if (widgetId !== undefined) {
+          try {
+            window.turnstile.remove(widgetId)
+          } catch {}
+          widgetId = undefined
+        }
+      }
+      return {
+        // Turnstile runs when rendered, so every execution renders a fresh widget
+        execute: (action) =>
+          new Promise((resolve, reject) => {
+            removeWidget()
+            widgetId = window.turnstile.render(container, {
+              sitekey: siteKey,
+              action,
+              appearance: "interaction-only",
+              callback: (token: string) => resolve(token),
+              "error-callback": (code: string) => reject(new Error(`Turnstile error ${code}`)),
+              "expired-callback": () => reject(new Error("Turnstile token expired")),
+            })
+          }),
+        destroy: removeWidget,
+      }
+    },
+  },
+}
+
+const scriptMarker = "data-captcha-provider"
+
+// Removes every provider script and global so a retry starts from a clean slate
+export function unloadCaptchaScripts() {
+  document.querySelectorAll(`script[${scriptMarker}]`).forEach((script) => script.remove())
+  for (const provider of Object.values(clientProviders)) {
+    if (window[provider.globalName]) {
+      delete window[provider.globalName]
+    }
+  }
+}
+
+/**
+ * Loads the provider's script and returns a client bound to `container`, which
+ * hosts any widget the provider needs to show.
+ */
+export function loadCaptchaClient(config: CaptchaClientConfig, container: HTMLElement): Promise<CaptchaClient> {
+  const provider = clientProviders[config.provider]
+  if (!provider) {
+    return Promise.reject(new Error(`Unsupported captcha provider: ${config.provider}`))
+  }
+
+  unloadCaptchaScripts()
+
+  return new Promise((resolve, reject) => {
+    const onloadCallback = `__captchaOnLoad_${Math.random().toString(36).slice(2)}` as const
+    window[onloadCallback] = () => {
+      delete window[onloadCallback]
+      try {
+        resolve(provider.create(config.siteKey, container))
+      } catch (error) {
+        reject(error)
+      }
+    }
+
+    console.log(`Loading ${config.provider} script with site key:`, config.siteKey.substring(0, 10) + "...")
+
+    const script = document.createElement("script")
+    script.src = provider.scriptUrl(config.siteKey, onloadCallback)
+    script.async = true
+    script.defer = true
+    script.setAttribute(scriptMarker, config.provider)
+    script.onerror = () => {
+      delete window[onloadCallback]
+      reject(new Error(`Failed to load ${config.provider} script`))
+    }
+
+    document.head.appendChild(script)
+  })
+}
@@ -0,0 +1,21 @@
+import { siteverify } from "@/lib/captcha/siteverify"
+import type { CaptchaProvider } from "@/lib/captcha/types"
+
+export const hcaptchaProvider: CaptchaProvider<"hcaptcha"> = {
+  name: "hcaptcha",
+  label: "hCaptcha",
+  supportsAction: false,
+  getSiteKey: () => process.env.HCAPTCHA_SITE_KEY,
+  isConfigured: () => Boolean(process.env.HCAPTCHA_SITE_KEY && process.env.HCAPTCHA_SECRET_KEY),
+  verify: (token, remoteIp) =>
+    siteverify(
+      "https://api.hcaptcha.com/siteverify",
+      {
+        secret: process.env.HCAPTCHA_SECRET_KEY,
+        response: token,
+        remoteip: remoteIp,
+        sitekey: process.env.HCAPTCHA_SITE_KEY,
+      },
+      "hCaptcha",
+    ),
+}
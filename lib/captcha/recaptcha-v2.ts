@@ -0,0 +1,17 @@
+import { siteverify } from "@/lib/captcha/siteverify"
+import type { CaptchaProvider } from "@/lib/captcha/types"
+
+// Checkbox/image challenge used for step-up; it has its own key pair, separate from v3
+export const recaptchaV2Provider: CaptchaProvider<"recaptcha-v2"> = {
+  name: "recaptcha-v2",
+  label: "reCAPTCHA",
+  supportsAction: false,
+  getSiteKey: () => process.env.RECAPTCHA_V2_SITE_KEY,
+  isConfigured: () => Boolean(process.env.RECAPTCHA_V2_SITE_KEY && process.env.RECAPTCHA_V2_SECRET_KEY),
+  verify: (token, remoteIp) =>
+    siteverify(
+      "https://www.google.com/recaptcha/api/siteverify",
+      { secret: process.env.RECAPTCHA_V2_SECRET_KEY, response: token, remoteip: remoteIp },
+      "reCAPTCHA v2",
+    ),
+}
@@ -0,0 +1,16 @@
+import { siteverify } from "@/lib/captcha/siteverify"
+import type { CaptchaProvider } from "@/lib/captcha/types"
+
+export const recaptchaV3Provider: CaptchaProvider<"recaptcha-v3"> = {
+  name: "recaptcha-v3",
+  label: "reCAPTCHA",
+  supportsAction: true,
+  getSiteKey: () => process.env.RECAPTCHA_SITE_KEY,
+  isConfigured: () => Boolean(process.env.RECAPTCHA_SITE_KEY && process.env.RECAPTCHA_SECRET_KEY),
+  verify: (token, remoteIp) =>
+    siteverify(
+      "https://www.google.com/recaptcha/api/siteverify",
+      { secret: process.env.RECAPTCHA_SECRET_KEY, response: token, remoteip: remoteIp },
+      "reCAPTCHA",
+    ),
+}
@@ -0,0 +1,70 @@
+import { hcaptchaProvider } from "@/lib/captcha/hcaptcha"
+import { recaptchaV2Provider } from "@/lib/captcha/recaptcha-v2"
+import { recaptchaV3Provider } from "@/lib/captcha/recaptcha-v3"
+import { turnstileProvider } from "@/lib/captcha/turnstile"
+import { captchaProviderNames, type CaptchaProvider, type CaptchaProviderName } from "@/lib/captcha/types"
+import { logger } from "@/lib/logger"
+import type { VerifyErrorCode } from "@/lib/verify-api"
+
+const providers: { [Name in CaptchaProviderName]: CaptchaProvider<Name> } = {
+  "recaptcha-v3": recaptchaV3Provider,
+  hcaptcha: hcaptchaProvider,
+  turnstile: turnstileProvider,
+}
+
+export function isCaptchaProviderName(value: unknown): value is CaptchaProviderName {
+  return captchaProviderNames.includes(value as CaptchaProviderName)
+}
+
+export function getCaptchaProvider(name: CaptchaProviderName) {
+  return providers[name]
+}
+
+export function getStepUpProvider() {
+  return recaptchaV2Provider
+}
+
+// Global default from CAPTCHA_PROVIDER, falling back to reCAPTCHA v3
+export function getDefaultCaptchaProviderName(): CaptchaProviderName {
+  const configured = process.env.CAPTCHA_PROVIDER
+  if (configured && !isCaptchaProviderName(configured)) {
+    logger.warn("Unknown CAPTCHA_PROVIDER, using recaptcha-v3", { configured })
+  }
+  return isCaptchaProviderName(configured) ? configured : "recaptcha-v3"
+}
+
+// A guild's provider override wins over the global default
+export function resolveCaptchaProvider(guildProvider?: CaptchaProviderName | null) {
+  return getCaptchaProvider(guildProvider || getDefaultCaptchaProviderName())
+}
+
+const secretErrorCodes = ["missing-input-secret", "invalid-input-secret", "sitekey-secret-mismatch"]
+const expiredErrorCodes = ["timeout-or-duplicate", "expired-input-response", "already-seen-response"]
+
+// Stable API code for a provider rejection; describeCaptchaErrors has the matching message
+export function captchaErrorCode(errorCodes: string[]): VerifyErrorCode {
+  if (errorCodes.some((code) => secretErrorCodes.includes(code))) return "SERVER_MISCONFIGURED"
+  if (errorCodes.some((code) => expiredErrorCodes.includes(code))) return "CAPTCHA_EXPIRED"
+  return "CAPTCHA_FAILED"
+}
+
+export function describeCaptchaErrors(provider: CaptchaProvider, errorCodes: string[]) {
+  if (errorCodes.includes("missing-input-secret")) {
+    return "Server configuration error: missing secret"
+  } else if (errorCodes.includes("invalid-input-secret") || errorCodes.includes("sitekey-secret-mismatch")) {
+    return "Server configuration error: invalid secret"
+  } else if (errorCodes.includes("missing-input-response")) {
+    return `Missing ${provider.label} response`
+  } else if (errorCodes.includes("invalid-input-response")) {
+    return `Invalid ${provider.label} response`
+  } else if (errorCodes.includes("browser-error")) {
+    return "Browser compatibility issue - please try refreshing"
+  } else if (
+    errorCodes.includes("timeout-or-duplicate") ||
+    errorCodes.includes("expired-input-response") ||
+    errorCodes.includes("already-seen-response")
+  ) {
+    return `${provider.label} expired - please try again`
+  }
+  return `${provider.label} verification failed`
+}
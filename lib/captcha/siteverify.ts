@@ -0,0 +1,44 @@
+import type { CaptchaVerification } from "@/lib/captcha/types"
+import { logger } from "@/lib/logger"
+
+// A provider that stops answering must not hold the verification request open
+const SITEVERIFY_TIMEOUT_MS = 10_000
+
+// reCAPTCHA, hCaptcha and Turnstile all share Google's siteverify request/response shape
+export async function siteverify(
+  url: string,
+  params: Record<string, string | undefined>,
+  providerLabel: string,
+): Promise<CaptchaVerification> {
+  const body = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value) body.set(key, value)
+  }
+
+  logger.debug("Sending siteverify request", { provider: providerLabel })
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "User-Agent": "Discord-Verification-Bot/1.0",
+    },
+    body,
+    signal: AbortSignal.timeout(SITEVERIFY_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    logger.error("Siteverify request failed", { provider: providerLabel, status: response.status })
+    throw new Error(`${providerLabel} API returned ${response.status}`)
+  }
+
+  const data = await response.json()
+  return {
+    success: Boolean(data.success),
+    score: typeof data.score === "number" ? data.score : undefined,
+    action: data.action || undefined,
+    hostname: data.hostname || undefined,
+    challengeTs: data.challenge_ts || undefined,
+    errorCodes: data["error-codes"] || [],
+  }
+}
@@ -0,0 +1,16 @@
+import { siteverify } from "@/lib/captcha/siteverify"
+import type { CaptchaProvider } from "@/lib/captcha/types"
+
+export const turnstileProvider: CaptchaProvider<"turnstile"> = {
+  name: "turnstile",
+  label: "Turnstile",
+  supportsAction: true,
+  getSiteKey: () => process.env.TURNSTILE_SITE_KEY,
+  isConfigured: () => Boolean(process.env.TURNSTILE_SITE_KEY && process.env.TURNSTILE_SECRET_KEY),
+  verify: (token, remoteIp) =>
+    siteverify(
+      "https://challenges.cloudflare.com/turnstile/v0/siteverify",
+      { secret: process.env.TURNSTILE_SECRET_KEY, response: token, remoteip: remoteIp },
+      "Turnstile",
+    ),
+}
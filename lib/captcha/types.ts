@@ -0,0 +1,35 @@
+export const captchaProviderNames = ["recaptcha-v3", "hcaptcha", "turnstile"] as const
+
+export type CaptchaProviderName = (typeof captchaProviderNames)[number]
+
+// Interactive challenge shown when a score lands in a guild's step-up band
+export type StepUpProviderName = "recaptcha-v2"
+
+export type AnyCaptchaProviderName = CaptchaProviderName | StepUpProviderName
+
+// What the page needs to render a provider's widget
+export interface CaptchaClientConfig {
+  provider: AnyCaptchaProviderName
+  siteKey: string
+}
+
+// Normalised siteverify response, whichever provider issued the token
+export interface CaptchaVerification {
+  success: boolean
+  // Only score-based providers (reCAPTCHA v3, hCaptcha Enterprise) report one
+  score?: number
+  action?: string
+  hostname?: string
+  challengeTs?: string
+  errorCodes: string[]
+}
+
+export interface CaptchaProvider<Name extends AnyCaptchaProviderName = AnyCaptchaProviderName> {
+  name: Name
+  label: string
+  // Whether tokens carry the action they were executed for
+  supportsAction: boolean
+  getSiteKey(): string | undefined
+  isConfigured(): boolean
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerification>
+}
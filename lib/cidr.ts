@@ -0,0 +1,128 @@
+import { isIPv4, isIPv6 } from "net"
+
+// The tsconfig target predates bigint literals
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const IPV4_MAPPED_PREFIX = BigInt(0xffff) << BigInt(32)
+
+// An address as a 128-bit number; IPv4 uses the IPv4-mapped IPv6 range so both families share one space
+function ipToBigInt(ip: string): bigint | null {
+  if (isIPv4(ip)) {
+    return ip.split(".").reduce((value, octet) => (value << BigInt(8)) | BigInt(octet), ZERO) | IPV4_MAPPED_PREFIX
+  }
+  if (!isIPv6(ip)) return null
+
+  let address = ip.split("%")[0]
+  // Trailing dotted quad, e.g. ::ffff:1.2.3.4
+  const dotted = address.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted[2].split(".").map(Number)
+    address = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+
+  const [head, tail] = address.split("::")
+  const headGroups = head ? head.split(":") : []
+  const tailGroups = tail !== undefined && tail !== "" ? tail.split(":") : []
+  const padding = tail === undefined ? [] : Array(8 - headGroups.length - tailGroups.length).fill("0")
+  const groups = [...headGroups, ...padding, ...tailGroups]
+
+  return groups.reduce((value, group) => (value << BigInt(16)) | BigInt(parseInt(group, 16)), ZERO)
+}
+
+/**
+ * Canonical text form of an address: IPv4-mapped IPv6 becomes plain IPv4 and other
+ * IPv6 is lower-cased and compressed per RFC 5952. Returns null if it is not an IP.
+ */
+export function normalizeIp(ip: string): string | null {
+  const value = ipToBigInt(ip.trim())
+  if (value === null) return null
+
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return [24, 16, 8, 0].map((shift) => Number((value >> BigInt(shift)) & BigInt(0xff))).join(".")
+  }
+
+  const groups = [112, 96, 80, 64, 48, 32, 16, 0].map((shift) => Number((value >> BigInt(shift)) & BigInt(0xffff)))
+  // Longest run of two or more zero groups collapses to "::"
+  let bestStart = -1
+  let bestLength = 1
+  for (let i = 0; i < 8; i++) {
+    let length = 0
+    while (i + length < 8 && groups[i + length] === 0) length++
+    if (length > bestLength) {
+      bestStart = i
+      bestLength = length
+    }
+  }
+
+  const hex = groups.map((group) => group.toString(16))
+  if (bestStart === -1) return hex.join(":")
+  return `${hex.slice(0, bestStart).join(":")}::${hex.slice(bestStart + bestLength).join(":")}`
+}
+
+export interface CidrRange {
+  start: bigint
+  end: bigint
+}
+
+// Parses "10.0.0.0/8", "2001:db8::/32" or a bare address; returns null for anything else
+export function parseCidr(entry: string): CidrRange | null {
+  const [address, prefixText] = entry.trim().split("/")
+  const value = ipToBigInt(address)
+  if (value === null) return null
+
+  const maxPrefix = isIPv4(address) ? 32 : 128
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null
+
+  const hostBits = BigInt(128 - (maxPrefix === 32 ? 96 + prefix : prefix))
+  const mask = (ONE << hostBits) - ONE
+  return { start: value & ~mask, end: value | mask }
+}
+
+export interface CidrSet {
+  size: number
+  contains(ip: string): boolean
+}
+
+/**
+ * Builds a lookup set from CIDR entries. Blank lines, `#` comments and invalid
+ * entries are skipped, so list files can be used as downloaded.
+ */
+export function createCidrSet(entries: Iterable<string>): CidrSet {
+  const ranges: CidrRange[] = []
+  for (const line of entries) {
+    const entry = line.split("#")[0].trim()
+    if (!entry) continue
+    const range = parseCidr(entry)
+    if (range) ranges.push(range)
+  }
+
+  // Sorted by start and merged, so lookups are a binary search
+  ranges.sort((a, b) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0))
+  const merged: CidrRange[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end + ONE) {
+      if (range.end > last.end) last.end = range.end
+    } else {
+      merged.push({ ...range })
+    }
+  }
+
+  return {
+    size: merged.length,
+    contains(ip: string) {
+      const value = ipToBigInt(ip)
+      if (value === null) return false
+      let low = 0
+      let high = merged.length - 1
+      while (low <= high) {
+        const mid = (low + high) >> 1
+        if (value < merged[mid].start) high = mid - 1
+        else if (value > merged[mid].end) low = mid + 1
+        else return true
+      }
+      return false
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import { createHmac } from "crypto"
+import type { NextRequest } from "next/server"
+import { type CidrSet, createCidrSet, normalizeIp } from "@/lib/cidr"
+import { logger } from "@/lib/logger"
+
+// https://www.cloudflare.com/ips/
+const CLOUDFLARE_RANGES = [
+  "173.245.48.0/20",
+  "103.21.244.0/22",
+  "103.22.200.0/22",
+  "103.31.4.0/22",
+  "141.101.64.0/18",
+  "108.162.192.0/18",
+  "190.93.240.0/20",
+  "188.114.96.0/20",
+  "197.234.240.0/22",
+  "198.41.128.0/17",
+  "162.158.0.0/15",
+  "104.16.0.0/13",
+  "104.24.0.0/14",
+  "172.64.0.0/13",
+  "131.0.72.0/22",
+  "2400:cb00::/32",
+  "2606:4700::/32",
+  "2803:f800::/32",
+  "2405:b500::/32",
+  "2405:8100::/32",
+  "2a06:98c0::/29",
+  "2c0f:f248::/32",
+]
+
+// Loopback, RFC 1918, CGNAT and unique-local ranges, for a reverse proxy on the same host or network
+const PRIVATE_RANGES = [
+  "127.0.0.0/8",
+  "10.0.0.0/8",
+  "172.16.0.0/12",
+  "192.168.0.0/16",
+  "100.64.0.0/10",
+  "169.254.0.0/16",
+  "::1/128",
+  "fc00::/7",
+  "fe80::/10",
+]
+
+const presets: Record<string, string[]> = {
+  cloudflare: CLOUDFLARE_RANGES,
+  private: PRIVATE_RANGES,
+  loopback: ["127.0.0.0/8", "::1/128"],
+}
+
+interface TrustConfig {
+  source: string
+  proxies: CidrSet
+  // On Vercel the edge rewrites the forwarding headers, so its own header is the chain
+  vercel: boolean
+}
+
+let cachedConfig: TrustConfig | null = null
+
+/**
+ * Parses TRUSTED_PROXIES: a comma-separated mix of presets (cloudflare, vercel,
+ * private, loopback) and CIDRs. Unset trusts no proxies.
+ */
+function getTrustConfig(): TrustConfig {
+  const source = process.env.TRUSTED_PROXIES || ""
+  if (cachedConfig && cachedConfig.source === source) {
+    return cachedConfig
+  }
+
+  const entries = source
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+  const cidrs: string[] = []
+  for (const entry of entries) {
+    if (entry === "vercel") continue
+    if (presets[entry]) {
+      cidrs.push(...presets[entry])
+    } else if (normalizeIp(entry.split("/")[0]) !== null) {
+      cidrs.push(entry)
+    } else {
+      logger.warn("Ignoring unknown TRUSTED_PROXIES entry", { entry })
+    }
+  }
+
+  cachedConfig = { source, proxies: createCidrSet(cidrs), vercel: entries.includes("vercel") }
+  return cachedConfig
+}
+
+// Strips the port and brackets proxies sometimes leave on a hop, e.g. "[::1]:443" or "1.2.3.4:5678"
+function parseHop(hop: string) {
+  const value = hop.trim()
+  const bracketed = value.match(/^\[([^\]]+)\](?::\d+)?$/)
+  if (bracketed) return normalizeIp(bracketed[1])
+  const withPort = value.match(/^(\d+\.\d+\.\d+\.\d+):\d+$/)
+  return normalizeIp(withPort ? withPort[1] : value)
+}
+
+/**
+ * The address the request came from, in canonical form, or "unknown".
+ *
+ * Walks the forwarding chain from the nearest hop outwards, skipping trusted proxies;
+ * the first untrusted hop is the client. Headers a client could have set themselves are
+ * never read past that point, so they can't spoof their address through a trusted proxy.
+ * Next.js only fills `x-forwarded-for` from the socket when the header is absent, so a
+ * deployment without a reverse proxy in front should not expose the server directly.
+ */
+export function getClientIp(request: NextRequest): string {
+  const config = getTrustConfig()
+  const header = config.vercel
+    ? request.headers.get("x-vercel-forwarded-for") || request.headers.get("x-forwarded-for")
+    : request.headers.get("x-forwarded-for")
+  if (!header) {
+    return "unknown"
+  }
+
+  const hops = header.split(",")
+  let client: string | null = null
+  for (let i = hops.length - 1; i >= 0; i--) {
+    const hop = parseHop(hops[i])
+    // A garbled hop can't be trusted to tell us anything further out
+    if (!hop) break
+    client = hop
+    if (!config.proxies.contains(hop)) break
+  }
+  return client || "unknown"
+}
+
+export function isIpPrivacyMode() {
+  return process.env.IP_PRIVACY_MODE === "hash"
+}
+
+/**
+ * With IP_PRIVACY_MODE=hash, addresses are replaced by a keyed hash (IP_HASH_SALT)
+ * before they are stored, logged or forwarded. The same IP always maps to the same
+ * value, so rate limits and alt detection keep working.
+ */
+export function protectIp(ip: string) {
+  if (!isIpPrivacyMode() || ip === "unknown") {
+    return ip
+  }
+
+  const salt = process.env.IP_HASH_SALT
+  if (!salt) {
+    throw new Error("IP_HASH_SALT not set in environment")
+  }
+  return `hash:${createHmac("sha256", salt).update(ip).digest("hex").slice(0, 32)}`
+}
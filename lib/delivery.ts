@@ -0,0 +1,225 @@
+import { createHash, createHmac, randomUUID } from "crypto"
+import { getKeyValueStore } from "@/lib/kv"
+import { getRequestId, logger } from "@/lib/logger"
+import { downstreamDuration, secondsSince } from "@/lib/metrics"
+import { addOutboxEntry, type OutboxEntry, removeOutboxEntry, updateOutboxEntry } from "@/lib/outbox"
+
+// Endpoint the bot server listened on before DOWNSTREAM_URLS existed
+const LEGACY_DOWNSTREAM_URL = "http://node.waifly.com:27482/verified"
+
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_MAX_ATTEMPTS = 3
+const BASE_BACKOFF_MS = 500
+// How long a keyed delivery remembers it reached an endpoint, so retries of the same event skip it
+const DELIVERED_TTL_MS = 24 * 60 * 60 * 1000
+
+export type DeliveryErrorKind = "timeout" | "network" | "http" | "rejected"
+
+// Why a downstream call failed, so callers never have to parse error strings
+export class DeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly kind: DeliveryErrorKind,
+    readonly status?: number,
+  ) {
+    super(message)
+    this.name = "DeliveryError"
+  }
+
+  get retryable() {
+    if (this.kind === "timeout" || this.kind === "network") return true
+    if (this.kind === "http") return this.status === 408 || this.status === 429 || (this.status ?? 0) >= 500
+    return false
+  }
+}
+
+export interface DeliveryResult {
+  endpoint: string
+  ok: boolean
+  attempts: number
+  response?: unknown
+  error?: DeliveryError
+  outboxId?: string
+}
+
+export function getDownstreamEndpoints() {
+  const configured = (process.env.DOWNSTREAM_URLS || "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean)
+  return configured.length > 0 ? configured : [LEGACY_DOWNSTREAM_URL]
+}
+
+function getNumberEnv(name: string, fallback: number) {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/**
+ * Signature over `${timestamp}.${body}`. Receivers recompute it with the shared secret
+ * and reject stale timestamps to stop replays.
+ */
+export function signDownstreamPayload(body: string, timestamp: number) {
+  const secret = process.env.DOWNSTREAM_SIGNING_SECRET || process.env.DISCORD_API_KEY || ""
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function postOnce(endpoint: string, body: string, deliveryId: string, timeoutMs: number) {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const requestId = getRequestId()
+
+  let response: Response
+  try {
+    response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "Vercel-Verification-Service/1.0",
+        Authorization: `Bearer ${process.env.DISCORD_API_KEY}`,
+        "X-Delivery-Id": deliveryId,
+        "X-Signature-Timestamp": String(timestamp),
+        "X-Signature": `sha256=${signDownstreamPayload(body, timestamp)}`,
+        // Lets the bot server's logs be matched against ours
+        ...(requestId ? { "X-Request-Id": requestId } : {}),
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+  } catch (error) {
+    if (error instanceof Error && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      throw new DeliveryError("Request timeout", "timeout")
+    }
+    throw new DeliveryError(error instanceof Error ? error.message : "fetch failed", "network")
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "")
+    throw new DeliveryError(`Downstream server error: ${response.status} - ${errorText}`, "http", response.status)
+  }
+
+  const result = await response.json().catch(() => ({}))
+  if (!result.success) {
+    throw new DeliveryError(result.message || "Downstream server rejected verification", "rejected")
+  }
+  return result
+}
+
+/**
+ * POSTs a signed payload to one endpoint, retrying transient failures with exponential
+ * backoff. The delivery ID stays the same across retries so receivers can deduplicate.
+ */
+export async function deliverToEndpoint(
+  endpoint: string,
+  payload: Record<string, unknown>,
+  deliveryId: string,
+): Promise<DeliveryResult> {
+  const maxAttempts = getNumberEnv("DOWNSTREAM_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS)
+  const timeoutMs = getNumberEnv("DOWNSTREAM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS)
+  const body = JSON.stringify(payload)
+
+  const guild = typeof payload.guild === "string" ? payload.guild : null
+
+  let lastError: DeliveryError | undefined
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const startedAt = Date.now()
+    try {
+      const response = await postOnce(endpoint, body, deliveryId, timeoutMs)
+      downstreamDuration.observe({ guild, result: "ok" }, secondsSince(startedAt))
+      return { endpoint, ok: true, attempts: attempt, response }
+    } catch (error) {
+      lastError = error instanceof DeliveryError ? error : new DeliveryError(String(error), "network")
+      downstreamDuration.observe({ guild, result: lastError.kind }, secondsSince(startedAt))
+      logger.error("Downstream delivery failed", { endpoint, attempt, maxAttempts, error: lastError })
+
+      if (!lastError.retryable || attempt === maxAttempts) {
+        return { endpoint, ok: false, attempts: attempt, error: lastError }
+      }
+      // 500ms, 1s, 2s... with jitter so parallel retries spread out
+      await sleep(BASE_BACKOFF_MS * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5))
+    }
+  }
+
+  return { endpoint, ok: false, attempts: maxAttempts, error: lastError }
+}
+
+const deliveredKey = (deliveryId: string) => `delivery:delivered:${deliveryId}`
+
+async function wasDelivered(deliveryId: string) {
+  return (await getKeyValueStore().get(deliveredKey(deliveryId))) !== null
+}
+
+async function markDelivered(deliveryId: string) {
+  await getKeyValueStore().set(deliveredKey(deliveryId), "1", DELIVERED_TTL_MS)
+}
+
+// Same event, key and endpoint always give the same delivery ID
+function keyedDeliveryId(event: string, key: string, endpoint: string) {
+  return createHash("sha256").update(`${event}\n${key}\n${endpoint}`).digest("hex").slice(0, 32)
+}
+
+/**
+ * Sends an event to every configured downstream endpoint. Deliveries that still fail
+ * after retrying are parked in the outbox for an admin to replay.
+ *
+ * With a `key` (e.g. the verification link), sending the same event again reuses each
+ * endpoint's delivery ID: endpoints that already have it are skipped, and a success
+ * withdraws the outbox entry the earlier failure left, so a replay cannot deliver twice.
+ */
+export async function deliverEvent(event: string, data: Record<string, unknown>, options: { key?: string } = {}) {
+  const payload = { event, ...data }
+  const results = await Promise.all(
+    getDownstreamEndpoints().map(async (endpoint): Promise<DeliveryResult> => {
+      const deliveryId = options.key ? keyedDeliveryId(event, options.key, endpoint) : randomUUID()
+      if (options.key && (await wasDelivered(deliveryId))) {
+        return { endpoint, ok: true, attempts: 0 }
+      }
+
+      const result = await deliverToEndpoint(endpoint, payload, deliveryId)
+      if (result.ok && options.key) {
+        try {
+          await markDelivered(deliveryId)
+          await removeOutboxEntry(deliveryId)
+        } catch (storeError) {
+          logger.error("Failed to record keyed delivery", { deliveryId, storeError })
+        }
+      }
+      if (!result.ok) {
+        try {
+          const entry = await addOutboxEntry({
+            id: deliveryId,
+            endpoint,
+            event,
+            payload,
+            attempts: result.attempts,
+            lastError: result.error?.message || "Unknown error",
+          })
+          result.outboxId = entry.id
+        } catch (outboxError) {
+          logger.error("Failed to write delivery to outbox", { outboxError })
+        }
+      }
+      return result
+    }),
+  )
+
+  return { ok: results.every((result) => result.ok), results }
+}
+
+// Re-sends a parked delivery and records the outcome on its outbox entry
+export async function replayOutboxEntry(entry: OutboxEntry) {
+  // A retry of the same event may have got through since the entry was parked
+  const result: DeliveryResult = (await wasDelivered(entry.id))
+    ? { endpoint: entry.endpoint, ok: true, attempts: 0 }
+    : await deliverToEndpoint(entry.endpoint, entry.payload, entry.id)
+  if (result.ok) {
+    await markDelivered(entry.id)
+  }
+  const updated = await updateOutboxEntry(entry.id, {
+    status: result.ok ? "delivered" : "failed",
+    attempts: entry.attempts + result.attempts,
+    lastError: result.ok ? entry.lastError : result.error?.message || "Unknown error",
+  })
+  return { result, entry: updated }
+}
@@ -0,0 +1,186 @@
+import { randomBytes } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { getDiscordApiBase } from "@/lib/discord"
+import type { Locale } from "@/lib/i18n/types"
+import { readSignedPayload, signPayload } from "@/lib/signing"
+
+const AUTHORIZE_URL = "https://discord.com/oauth2/authorize"
+
+export const DISCORD_SESSION_COOKIE = "discord_session"
+export const OAUTH_STATE_COOKIE = "discord_oauth_state"
+
+const SESSION_TTL_SECONDS = 60 * 60
+const STATE_TTL_SECONDS = 10 * 60
+
+// Signed into the session cookie once Discord has confirmed who the user is
+export interface DiscordSession {
+  userId: string
+  username: string
+  // Membership results for guilds checked at sign-in (needs the `guilds` scope)
+  guilds: Record<string, boolean>
+  exp: number
+}
+
+// Carries the CSRF state and the link the user started from across the OAuth redirect
+export interface OAuthState {
+  state: string
+  link: string
+  locale?: Locale | null
+  scopes: string[]
+  exp: number
+}
+
+function getSecret() {
+  const secret = process.env.SESSION_SECRET || process.env.VERIFICATION_LINK_SECRET
+  if (!secret) {
+    throw new Error("SESSION_SECRET not set in environment")
+  }
+  return secret
+}
+
+export function isDiscordOAuthConfigured() {
+  return Boolean(process.env.DISCORD_CLIENT_ID && process.env.DISCORD_CLIENT_SECRET)
+}
+
+export function getOAuthRedirectUri(request: NextRequest) {
+  return (
+    process.env.DISCORD_REDIRECT_URI ||
+    new URL("/api/auth/discord/callback", process.env.PUBLIC_BASE_URL || request.nextUrl.origin).toString()
+  )
+}
+
+const cookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+  path: "/",
+  maxAge,
+})
+
+function readCookie<T extends { exp: number }>(request: NextRequest, name: string): T | null {
+  const value = request.cookies.get(name)?.value
+  if (!value) return null
+
+  const decoded = readSignedPayload<T>(value, getSecret())
+  if (!decoded.ok || !decoded.data || decoded.data.exp * 1000 <= Date.now()) {
+    return null
+  }
+  return decoded.data
+}
+
+export function readDiscordSession(request: NextRequest) {
+  return readCookie<DiscordSession>(request, DISCORD_SESSION_COOKIE)
+}
+
+/**
+ * Whether the user still has to (re-)sign in for this guild: always without a session,
+ * and when membership is required but was not checked for this guild yet.
+ */
+export function needsDiscordSignIn(
+  session: DiscordSession | null,
+  guild: string,
+  checks: { oauth: boolean; guildMembership: boolean },
+) {
+  if (!checks.oauth) return false
+  if (!session) return true
+  return checks.guildMembership && session.guilds[guild] === undefined
+}
+
+/**
+ * Starts the OAuth flow: redirects to Discord's authorize page, remembering a random
+ * state, the verification link and any requested locale in a short-lived cookie.
+ */
+export function redirectToDiscordOAuth(
+  request: NextRequest,
+  { link, locale = null, includeGuilds }: { link: string; locale?: Locale | null; includeGuilds: boolean },
+) {
+  const scopes = includeGuilds ? ["identify", "guilds"] : ["identify"]
+  const state: OAuthState = {
+    state: randomBytes(24).toString("base64url"),
+    link,
+    locale,
+    scopes,
+    exp: Math.floor(Date.now() / 1000) + STATE_TTL_SECONDS,
+  }
+
+  const url = new URL(AUTHORIZE_URL)
+  url.searchParams.set("client_id", process.env.DISCORD_CLIENT_ID || "")
+  url.searchParams.set("redirect_uri", getOAuthRedirectUri(request))
+  url.searchParams.set("response_type", "code")
+  url.searchParams.set("scope", scopes.join(" "))
+  url.searchParams.set("state", state.state)
+  url.searchParams.set("prompt", "none")
+
+  const response = NextResponse.redirect(url)
+  response.cookies.set(OAUTH_STATE_COOKIE, signPayload(state, getSecret()), cookieOptions(STATE_TTL_SECONDS))
+  return response
+}
+
+// Returns the pending OAuth state if the callback's `state` matches the cookie
+export function takeOAuthState(request: NextRequest, state: string | null) {
+  const pending = readCookie<OAuthState>(request, OAUTH_STATE_COOKIE)
+  if (!pending || !state || pending.state !== state) {
+    return null
+  }
+  return pending
+}
+
+async function discordOAuthFetch<T>(path: string, accessToken: string): Promise<T> {
+  const response = await fetch(`${getDiscordApiBase()}${path}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    signal: AbortSignal.timeout(10_000),
+  })
+  if (!response.ok) {
+    throw new Error(`Discord API ${path} returned ${response.status}`)
+  }
+  return response.json()
+}
+
+export async function exchangeOAuthCode(request: NextRequest, code: string) {
+  const response = await fetch(`${getDiscordApiBase()}/oauth2/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: getOAuthRedirectUri(request),
+      client_id: process.env.DISCORD_CLIENT_ID || "",
+      client_secret: process.env.DISCORD_CLIENT_SECRET || "",
+    }),
+    signal: AbortSignal.timeout(10_000),
+  })
+  if (!response.ok) {
+    throw new Error(`Discord token exchange returned ${response.status}`)
+  }
+  const data: { access_token: string; scope: string } = await response.json()
+  return { accessToken: data.access_token, scopes: data.scope.split(" ") }
+}
+
+export function fetchDiscordUser(accessToken: string) {
+  return discordOAuthFetch<{ id: string; username: string; global_name?: string | null }>("/users/@me", accessToken)
+}
+
+// Walks /users/@me/guilds (200 per page) looking for one guild
+export async function isMemberOfGuild(accessToken: string, guild: string) {
+  let after = "0"
+  for (;;) {
+    const page = await discordOAuthFetch<{ id: string }[]>(`/users/@me/guilds?limit=200&after=${after}`, accessToken)
+    if (page.some((entry) => entry.id === guild)) return true
+    if (page.length < 200) return false
+    after = page[page.length - 1].id
+  }
+}
+
+export function setDiscordSession(response: NextResponse, session: Omit<DiscordSession, "exp">) {
+  const data: DiscordSession = { ...session, exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS }
+  response.cookies.set(DISCORD_SESSION_COOKIE, signPayload(data, getSecret()), cookieOptions(SESSION_TTL_SECONDS))
+}
+
+// The state is single-use; the callback drops it whether the sign-in worked or not
+export function clearOAuthState(response: NextResponse) {
+  response.cookies.delete(OAUTH_STATE_COOKIE)
+}
+
+export function clearDiscordSession(response: NextResponse) {
+  response.cookies.delete(DISCORD_SESSION_COOKIE)
+}
@@ -0,0 +1,177 @@
+import { logger } from "@/lib/logger"
+
+const DEFAULT_API_BASE = "https://discord.com/api/v10"
+const MAX_RATE_LIMIT_RETRIES = 3
+// Longest a request waits on a rate limit; past that it fails instead of holding the verification open
+const MAX_RATE_LIMIT_WAIT_MS = 10_000
+
+export class DiscordApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    // Discord's JSON error code, e.g. 50007 "Cannot send messages to this user"
+    readonly code?: number,
+  ) {
+    super(message)
+    this.name = "DiscordApiError"
+  }
+}
+
+// Remaining requests per route, from the X-RateLimit-* headers of the last response
+const buckets = new Map<string, { remaining: number; resetAt: number }>()
+let globalResetAt = 0
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+export function getDiscordApiBase() {
+  return (process.env.DISCORD_API_BASE || DEFAULT_API_BASE).replace(/\/+$/, "")
+}
+
+export function isDiscordConfigured() {
+  return Boolean(process.env.DISCORD_BOT_TOKEN)
+}
+
+// Discord scopes rate limits by route plus its top-level resource (guild or channel)
+function bucketKey(method: string, path: string) {
+  return `${method} ${path.replace(/\/(members|users|roles|messages)\/\d+/g, "/$1/:id")}`
+}
+
+async function waitForRateLimit(key: string) {
+  const now = Date.now()
+  const bucket = buckets.get(key)
+  const waitUntil = Math.max(globalResetAt, bucket && bucket.remaining <= 0 ? bucket.resetAt : 0)
+  if (waitUntil - now > MAX_RATE_LIMIT_WAIT_MS) {
+    logger.warn("Discord rate limit wait too long, giving up", { bucket: key, waitMs: waitUntil - now })
+    throw new DiscordApiError("Discord rate limit exceeded", 429)
+  }
+  if (waitUntil > now) {
+    await sleep(waitUntil - now)
+  }
+}
+
+function recordRateLimit(key: string, headers: Headers) {
+  const remaining = headers.get("x-ratelimit-remaining")
+  const resetAfter = headers.get("x-ratelimit-reset-after")
+  if (remaining !== null && resetAfter !== null) {
+    buckets.set(key, { remaining: Number(remaining), resetAt: Date.now() + Number(resetAfter) * 1000 })
+  }
+}
+
+/**
+ * Calls the Discord REST API as the bot. Waits out exhausted buckets before sending and
+ * retries 429s after the time Discord asks for, unless that is longer than MAX_RATE_LIMIT_WAIT_MS.
+ */
+export async function discordRequest<T = unknown>(
+  method: string,
+  path: string,
+  { body, reason }: { body?: unknown; reason?: string } = {},
+): Promise<T> {
+  const token = process.env.DISCORD_BOT_TOKEN
+  if (!token) {
+    throw new Error("DISCORD_BOT_TOKEN not set in environment")
+  }
+
+  const key = bucketKey(method, path)
+
+  for (let attempt = 0; ; attempt++) {
+    await waitForRateLimit(key)
+
+    const response = await fetch(`${getDiscordApiBase()}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bot ${token}`,
+        "User-Agent": "DiscordBot (https://github.com/ImDevRaven/discord-recaptca-verifications, 1.0)",
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(reason ? { "X-Audit-Log-Reason": encodeURIComponent(reason) } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      signal: AbortSignal.timeout(10_000),
+    })
+
+    recordRateLimit(key, response.headers)
+
+    if (response.status === 429) {
+      const data = await response.json().catch(() => ({}))
+      const retryAfter = Number(data.retry_after ?? response.headers.get("retry-after") ?? 1)
+      const waitMs = Math.ceil((Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : 1) * 1000)
+      if (data.global || response.headers.get("x-ratelimit-global")) {
+        globalResetAt = Date.now() + waitMs
+      } else {
+        buckets.set(key, { remaining: 0, resetAt: Date.now() + waitMs })
+      }
+
+      logger.warn("Discord rate limited, retrying", { bucket: key, waitMs })
+      if (attempt >= MAX_RATE_LIMIT_RETRIES) {
+        throw new DiscordApiError("Discord rate limit exceeded", 429)
+      }
+      continue
+    }
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      throw new DiscordApiError(
+        `Discord API ${method} ${path} returned ${response.status}: ${data.message || response.statusText}`,
+        response.status,
+        data.code,
+      )
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json()
+  }
+}
+
+export function addGuildMemberRole(guild: string, user: string, role: string, reason?: string) {
+  return discordRequest("PUT", `/guilds/${guild}/members/${user}/roles/${role}`, { reason })
+}
+
+export function removeGuildMemberRole(guild: string, user: string, role: string, reason?: string) {
+  return discordRequest("DELETE", `/guilds/${guild}/members/${user}/roles/${role}`, { reason })
+}
+
+export async function sendDirectMessage(user: string, content: string) {
+  const channel = await discordRequest<{ id: string }>("POST", "/users/@me/channels", {
+    body: { recipient_id: user },
+  })
+  return discordRequest("POST", `/channels/${channel.id}/messages`, { body: { content } })
+}
+
+export interface DiscordRoleConfig {
+  verifiedRoleId: string | null
+  unverifiedRoleId: string | null
+  dmMessage: string | null
+}
+
+/**
+ * Grants the verified role, then optionally removes the unverified role and DMs the
+ * user. Only the role grant is required; the follow-ups are logged if they fail.
+ */
+export async function applyVerifiedRoles(guild: string, user: string, config: DiscordRoleConfig) {
+  if (!config.verifiedRoleId) {
+    throw new Error(`No verified role configured for guild ${guild}`)
+  }
+
+  const reason = "Passed captcha verification"
+  await addGuildMemberRole(guild, user, config.verifiedRoleId, reason)
+  const result = { roleAdded: true, roleRemoved: false, dmSent: false }
+
+  if (config.unverifiedRoleId) {
+    try {
+      await removeGuildMemberRole(guild, user, config.unverifiedRoleId, reason)
+      result.roleRemoved = true
+    } catch (error) {
+      logger.error("Failed to remove unverified role", { guild, error })
+    }
+  }
+
+  if (config.dmMessage) {
+    try {
+      await sendDirectMessage(user, config.dmMessage)
+      result.dmSent = true
+    } catch (error) {
+      // 50007: the user has DMs from server members turned off
+      logger.warn("Could not DM user", { user, error })
+    }
+  }
+
+  return result
+}
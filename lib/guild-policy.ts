@@ -0,0 +1,218 @@
+import { z } from "zod"
+import { brandingSchema, defaultBranding } from "@/lib/branding"
+import { getDefaultCaptchaProviderName } from "@/lib/captcha/server"
+import { captchaProviderNames, type CaptchaProviderName } from "@/lib/captcha/types"
+import { parseCidr } from "@/lib/cidr"
+import { supportedLocales } from "@/lib/i18n/types"
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+
+const POLICY_FILE = "guild-policies.json"
+
+export const guildIdSchema = z.string().regex(/^\d{1,32}$/, "Guild ID must be a Discord snowflake")
+
+const snowflakeSchema = z.string().regex(/^\d{1,32}$/, "Must be a Discord snowflake")
+
+const ipRuleActionSchema = z.enum(["allow", "flag", "deny"])
+
+// Turnstile refuses actions longer than 32 characters or with anything but letters, digits, _ and -
+const TURNSTILE_ACTION = /^[A-Za-z0-9_-]{1,32}$/
+
+// Provider-specific limits on fields every provider shares
+function checkProviderLimits(policy: { provider?: CaptchaProviderName | null; action?: string }, ctx: z.RefinementCtx) {
+  if (policy.provider === "turnstile" && policy.action !== undefined && !TURNSTILE_ACTION.test(policy.action)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["action"],
+      message: "Turnstile actions may only contain up to 32 letters, digits, _ and -",
+    })
+  }
+}
+
+const guildPolicyFields = z.object({
+  // Captcha provider for this guild; null uses the global CAPTCHA_PROVIDER
+  provider: z.enum(captchaProviderNames).nullable(),
+  // Minimum score required to pass, for providers that report one
+  threshold: z.number().min(0).max(1),
+  // Scores from here up to the threshold get an interactive challenge instead of a rejection; null disables
+  stepUpThreshold: z.number().min(0).max(1).nullable(),
+  // Captcha action the page executes and the token must carry
+  action: z.string().regex(/^[A-Za-z0-9_/]{1,100}$/, "Action may only contain letters, digits, _ and /"),
+  // Language of the verification page when the link doesn't ask for one; null follows the browser
+  locale: z.enum(supportedLocales).nullable(),
+  // Hostnames the captcha may have been solved on; empty allows any
+  allowedHostnames: z.array(z.string().min(1).max(253)).max(50),
+  // Oldest captcha token accepted, measured from the provider's challenge timestamp
+  maxTokenAgeSeconds: z.number().int().min(1).max(3600),
+  // Verification attempts allowed per link; 0 means unlimited
+  maxAttempts: z.number().int().min(0).max(100),
+  checks: z.object({
+    hostname: z.boolean(),
+    action: z.boolean(),
+    tokenAge: z.boolean(),
+    // Require Discord sign-in; the verified user ID then comes from the OAuth session
+    oauth: z.boolean(),
+    // With oauth, also require the signed-in user to be in the guild (adds the `guilds` scope)
+    guildMembership: z.boolean(),
+  }),
+  // "downstream" notifies the bot server(s); "discord" assigns roles directly through the Discord API
+  delivery: z.enum(["downstream", "discord"]),
+  discord: z.object({
+    verifiedRoleId: snowflakeSchema.nullable(),
+    unverifiedRoleId: snowflakeSchema.nullable(),
+    dmMessage: z.string().min(1).max(2000).nullable(),
+  }),
+  // Links accounts that verify from the same IP or device and flags or blocks past maxAccounts
+  altDetection: z.object({
+    enabled: z.boolean(),
+    maxAccounts: z.number().int().min(1).max(100),
+    action: z.enum(["flag", "block"]),
+    // 0 links accounts forever
+    windowDays: z.number().int().min(0).max(365),
+  }),
+  // What to do with verifications from proxies, hosting networks or listed countries/ASNs
+  ipRules: z.object({
+    proxy: ipRuleActionSchema,
+    hosting: ipRuleActionSchema,
+    countries: z.array(z.string().regex(/^[A-Z]{2}$/, "Countries must be ISO 3166-1 alpha-2 codes")).max(250),
+    countryAction: ipRuleActionSchema,
+    asns: z.array(z.number().int().min(0).max(4294967295)).max(1000),
+    asnAction: ipRuleActionSchema,
+    allowCidrs: z.array(z.string().refine((entry) => parseCidr(entry) !== null, "Invalid CIDR")).max(100),
+  }),
+  // Look of the verification page: backgrounds, colours, logo and text
+  branding: brandingSchema,
+})
+
+export const guildPolicySchema = guildPolicyFields.superRefine(checkProviderLimits)
+
+export type GuildPolicy = z.infer<typeof guildPolicySchema>
+
+export interface StoredGuildPolicy extends GuildPolicy {
+  guild: string
+  updatedAt: string
+}
+
+// Partial updates are merged over the current (or default) policy
+export const guildPolicyUpdateSchema = guildPolicyFields
+  .extend({
+    checks: guildPolicyFields.shape.checks.partial(),
+    discord: guildPolicyFields.shape.discord.partial(),
+    altDetection: guildPolicyFields.shape.altDetection.partial(),
+    ipRules: guildPolicyFields.shape.ipRules.partial(),
+    branding: guildPolicyFields.shape.branding.partial(),
+  })
+  .partial()
+  .superRefine(checkProviderLimits)
+
+// An update that is valid on its own but not combined with the settings it leaves out
+export class GuildPolicyValidationError extends Error {
+  constructor(readonly issues: z.ZodIssue[]) {
+    super("Invalid policy")
+    this.name = "GuildPolicyValidationError"
+  }
+}
+
+export type GuildPolicyUpdate = z.infer<typeof guildPolicyUpdateSchema>
+
+export const defaultGuildPolicy: GuildPolicy = {
+  provider: null,
+  threshold: 0.5,
+  stepUpThreshold: null,
+  action: "verify_user",
+  locale: null,
+  allowedHostnames: [],
+  // Providers stop honouring tokens after two minutes anyway
+  maxTokenAgeSeconds: 120,
+  maxAttempts: 0,
+  checks: {
+    hostname: true,
+    action: true,
+    tokenAge: true,
+    oauth: false,
+    guildMembership: false,
+  },
+  delivery: "downstream",
+  discord: {
+    verifiedRoleId: null,
+    unverifiedRoleId: null,
+    dmMessage: null,
+  },
+  altDetection: {
+    enabled: true,
+    maxAccounts: 2,
+    action: "flag",
+    windowDays: 30,
+  },
+  ipRules: {
+    proxy: "allow",
+    hosting: "allow",
+    countries: [],
+    countryAction: "allow",
+    asns: [],
+    asnAction: "allow",
+    allowCidrs: [],
+  },
+  branding: defaultBranding,
+}
+
+// Nested sections merge key by key so a partial update keeps the settings it leaves out
+function mergePolicy(base: GuildPolicy, update: GuildPolicyUpdate): GuildPolicy {
+  return {
+    ...base,
+    ...update,
+    checks: { ...base.checks, ...update.checks },
+    discord: { ...base.discord, ...update.discord },
+    altDetection: { ...base.altDetection, ...update.altDetection },
+    ipRules: { ...base.ipRules, ...update.ipRules },
+    branding: { ...base.branding, ...update.branding },
+  }
+}
+
+type PolicyFile = Record<string, StoredGuildPolicy>
+
+export async function listGuildPolicies() {
+  const policies = await readJsonFile<PolicyFile>(POLICY_FILE, {})
+  return Object.values(policies)
+}
+
+export async function findGuildPolicy(guild: string) {
+  const policies = await readJsonFile<PolicyFile>(POLICY_FILE, {})
+  return policies[guild] || null
+}
+
+// Effective policy for a guild: its stored settings, or the defaults
+export async function getGuildPolicy(guild: string): Promise<GuildPolicy> {
+  const stored = await findGuildPolicy(guild)
+  if (!stored) {
+    return defaultGuildPolicy
+  }
+  const { guild: _guild, updatedAt: _updatedAt, ...policy } = stored
+  return mergePolicy(defaultGuildPolicy, policy)
+}
+
+export function saveGuildPolicy(guild: string, update: GuildPolicyUpdate) {
+  return updateJsonFile<PolicyFile, StoredGuildPolicy>(POLICY_FILE, {}, (policies) => {
+    const current = policies[guild] ? mergePolicy(defaultGuildPolicy, policies[guild]) : defaultGuildPolicy
+    const merged = mergePolicy(current, update)
+    // e.g. an action set earlier that the newly chosen provider (or the global default) refuses
+    const checked = guildPolicySchema.safeParse({
+      ...merged,
+      provider: merged.provider ?? getDefaultCaptchaProviderName(),
+    })
+    if (!checked.success) {
+      throw new GuildPolicyValidationError(checked.error.issues)
+    }
+    const next: StoredGuildPolicy = { ...merged, guild, updatedAt: new Date().toISOString() }
+    return { value: { ...policies, [guild]: next }, result: next }
+  })
+}
+
+export function deleteGuildPolicy(guild: string) {
+  return updateJsonFile<PolicyFile, boolean>(POLICY_FILE, {}, (policies) => {
+    if (!policies[guild]) {
+      return { value: policies, result: false }
+    }
+    const { [guild]: _removed, ...rest } = policies
+    return { value: rest, result: true }
+  })
+}
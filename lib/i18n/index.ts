@@ -0,0 +1,73 @@
+import { ar } from "@/lib/i18n/locales/ar"
+import { de } from "@/lib/i18n/locales/de"
+import { en } from "@/lib/i18n/locales/en"
+import { es } from "@/lib/i18n/locales/es"
+import { ja } from "@/lib/i18n/locales/ja"
+import { pt } from "@/lib/i18n/locales/pt"
+import { type Locale, type Messages, supportedLocales } from "@/lib/i18n/types"
+
+export { type Locale, type Messages, supportedLocales, type TextDirection } from "@/lib/i18n/types"
+
+export const defaultLocale: Locale = "en"
+
+const catalogues: Record<Locale, Messages> = { en, es, pt, de, ja, ar }
+
+export function isLocale(value: unknown): value is Locale {
+  return supportedLocales.includes(value as Locale)
+}
+
+// "pt-BR", "PT" and "pt_br" all mean "pt"; unsupported languages give null
+export function matchLocale(value: string | null | undefined): Locale | null {
+  const language = value?.trim().toLowerCase().split(/[-_]/)[0]
+  return isLocale(language) ? language : null
+}
+
+/**
+ * Picks the best supported language from an Accept-Language header, honouring q-values
+ * ("de-CH, de;q=0.9, en;q=0.8"). Returns null when none of them is supported.
+ */
+export function negotiateLocale(acceptLanguage: string | null | undefined): Locale | null {
+  if (!acceptLanguage) return null
+
+  const ranked = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";")
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="))
+      const quality = q ? Number(q.slice(2)) : 1
+      return { locale: matchLocale(tag), quality: Number.isFinite(quality) ? quality : 0, index }
+    })
+    .filter((entry) => entry.locale !== null && entry.quality > 0)
+    // Equal weights keep the header's order
+    .sort((a, b) => b.quality - a.quality || a.index - b.index)
+
+  return ranked[0]?.locale ?? null
+}
+
+/**
+ * The page's language: an explicit `locale` link parameter wins, then the guild's default,
+ * then the browser's Accept-Language, then English.
+ */
+export function resolveLocale(options: {
+  requested?: string | null
+  guildDefault?: string | null
+  acceptLanguage?: string | null
+}): Locale {
+  return (
+    matchLocale(options.requested) ??
+    matchLocale(options.guildDefault) ??
+    negotiateLocale(options.acceptLanguage) ??
+    defaultLocale
+  )
+}
+
+export function getMessages(locale: Locale): Messages {
+  return catalogues[locale] ?? catalogues[defaultLocale]
+}
+
+// Fills `{name}`-style placeholders
+export function formatMessage(message: string, values: Record<string, string | number>) {
+  return message.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? String(values[key]) : placeholder,
+  )
+}
@@ -0,0 +1,84 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const ar: Messages = {
+  direction: "rtl",
+  title: "تحقّق من هويتك",
+  subtitle: "يمكنك استخدام قنوات الخادم بعد أن يتحقق منك نظام الأمان لدينا.",
+  status: {
+    loading: "جارٍ التحميل…",
+    signin: "سجّل الدخول باستخدام Discord للمتابعة.",
+    token: "جارٍ فحص اختبار CAPTCHA…",
+    risk: "جارٍ تحليل النشاط…",
+    delivery: "في انتظار خادم Discord…",
+    webhook: "جارٍ الإنهاء…",
+    challenge: "خطوة أخيرة - يرجى إكمال التحدي أدناه.",
+    success: "تم التحقق بنجاح!",
+    error: "فشل التحقق. يرجى المحاولة مرة أخرى.",
+  },
+  loading: "جارٍ التحميل...",
+  loadingSlow: "جارٍ التحميل (مُحسَّن لاتصالك)...",
+  loadingSlowHint: "يرجى الانتظار، جارٍ التحسين للاتصال البطيء",
+  signedInAs: "مسجّل الدخول باسم {name}",
+  notYou: "لست أنت؟",
+  continue: "متابعة",
+  closesIn: (seconds) => `ستُغلق هذه النافذة تلقائيًا خلال ${seconds} ثانية.`,
+  closeTab: "يرجى إغلاق علامة التبويب هذه للعودة إلى Discord.",
+  signInWithDiscord: "تسجيل الدخول باستخدام Discord",
+  reference: "المرجع",
+  tryAgain: "إعادة المحاولة",
+  attempt: (attempt) => `المحاولة ${attempt}`,
+  pleaseWait: "يرجى الانتظار...",
+  copyright: "حقوق النشر © 2025 جميع الحقوق محفوظة.",
+  loadingWallpaper: "جارٍ تحميل الخلفية...",
+  sidePanelHeadline: "نظام تحقق طوّرته DevNest لحماية أعضاء {name} من المخترقين ومرسلي الرسائل المزعجة",
+  serverAdmin: "مشرف الخادم",
+  authErrors: {
+    state: "انتهت صلاحية تسجيل الدخول أو بدأ في متصفح آخر - يرجى المحاولة مرة أخرى.",
+    denied: "تم إلغاء تسجيل الدخول عبر Discord.",
+    failed: "فشل تسجيل الدخول عبر Discord - يرجى المحاولة مرة أخرى.",
+  },
+  clientErrors: {
+    network: "خطأ في الشبكة - يرجى التحقق من اتصالك والمحاولة مرة أخرى.",
+    timeout: "استغرق الخادم وقتًا طويلًا للرد - يرجى المحاولة مرة أخرى.",
+    config: "تعذّر تحميل إعدادات التحقق",
+    noSiteKey: "خطأ في الإعدادات: لا يوجد مفتاح موقع",
+    captchaLoad: "تعذّر تحميل اختبار CAPTCHA",
+    captchaToken: "تعذّر إنشاء رمز CAPTCHA",
+    captchaExecution: "فشل اختبار CAPTCHA - يرجى المحاولة مرة أخرى.",
+    challenge: "فشل التحدي - يرجى المحاولة مرة أخرى.",
+  },
+  errors: {
+    INVALID_REQUEST: "طلب تحقق غير صالح. يرجى المحاولة مرة أخرى.",
+    INVALID_LINK: "رابط التحقق غير صالح",
+    LINK_EXPIRED: "انتهت صلاحية رابط التحقق هذا - يرجى طلب رابط جديد",
+    LINK_USED: "تم استخدام رابط التحقق هذا من قبل",
+    SESSION_INVALID: "لم يتم العثور على جلسة التحقق - يرجى المحاولة مرة أخرى",
+    SESSION_EXPIRED: "انتهت صلاحية جلسة التحقق - يرجى المحاولة مرة أخرى",
+    RATE_LIMITED: "محاولات تحقق كثيرة جدًا - يرجى الانتظار ثم المحاولة مرة أخرى",
+    ATTEMPT_LIMIT_REACHED: "محاولات تحقق كثيرة جدًا - يرجى طلب رابط جديد",
+    SIGN_IN_REQUIRED: "يرجى تسجيل الدخول باستخدام Discord للتحقق",
+    NOT_GUILD_MEMBER: "أنت لست عضوًا في خادم Discord هذا.",
+    IP_DENIED: "لا يسمح هذا الخادم بالتحقق من شبكتك أو موقعك.",
+    ALT_ACCOUNT_BLOCKED: "سبق استخدام هذا الجهاز أو هذه الشبكة للتحقق من حسابات أخرى على هذا الخادم.",
+    CAPTCHA_MISSING: "لم يتم إرسال CAPTCHA",
+    CAPTCHA_REPLAYED: "تم استخدام اختبار CAPTCHA هذا من قبل - يرجى المحاولة مرة أخرى",
+    CAPTCHA_EXPIRED: "انتهت صلاحية اختبار CAPTCHA - يرجى المحاولة مرة أخرى",
+    CAPTCHA_FAILED: "فشل التحقق من CAPTCHA",
+    CAPTCHA_ACTION_MISMATCH: "إجراء CAPTCHA غير مطابق",
+    CAPTCHA_HOSTNAME_MISMATCH: "تم حل اختبار CAPTCHA على موقع غير مسموح به",
+    CAPTCHA_TOKEN_TOO_OLD: "مضى وقت طويل على حل اختبار CAPTCHA - يرجى المحاولة مرة أخرى",
+    CAPTCHA_LOW_SCORE: "درجة التحقق منخفضة جدًا",
+    STEP_UP_REQUIRED: "مطلوب تحقق إضافي",
+    DISCORD_ROLE_MISSING: "دور التحقق المعيّن لهذا الخادم لم يعد موجودًا.",
+    DISCORD_MISSING_PERMISSIONS: "لا يملك البوت صلاحية منح دور التحقق.",
+    DISCORD_RATE_LIMITED: "يحدّ Discord من الطلبات حاليًا. يرجى المحاولة بعد قليل.",
+    DISCORD_ERROR: "تعذّر إكمال التحقق مع خادم Discord",
+    DOWNSTREAM_TIMEOUT: "يستغرق خادم Discord وقتًا طويلًا للرد. يرجى المحاولة مرة أخرى.",
+    DOWNSTREAM_UNREACHABLE: "تعذّر الاتصال بخادم Discord. يرجى المحاولة لاحقًا.",
+    DOWNSTREAM_ERROR: "حدث خطأ في خادم Discord. يرجى المحاولة مرة أخرى.",
+    DOWNSTREAM_REJECTED: "تعذّر إكمال التحقق مع خادم Discord",
+    UNAUTHORIZED: "غير مصرح",
+    SERVER_MISCONFIGURED: "خطأ في إعدادات الخادم",
+    INTERNAL_ERROR: "خطأ داخلي في الخادم",
+  },
+}
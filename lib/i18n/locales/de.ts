@@ -0,0 +1,86 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const de: Messages = {
+  direction: "ltr",
+  title: "Verifiziere dich",
+  subtitle: "Sobald unser Sicherheitssystem dich verifiziert hat, kannst du die Kanäle des Servers nutzen.",
+  status: {
+    loading: "Wird geladen…",
+    signin: "Melde dich mit Discord an, um fortzufahren.",
+    token: "Captcha wird geprüft…",
+    risk: "Aktivität wird analysiert…",
+    delivery: "Warte auf den Discord-Server…",
+    webhook: "Wird abgeschlossen…",
+    challenge: "Noch ein Schritt – bitte löse die Aufgabe unten.",
+    success: "Erfolgreich verifiziert!",
+    error: "Verifizierung fehlgeschlagen. Bitte versuche es erneut.",
+  },
+  loading: "Wird geladen...",
+  loadingSlow: "Wird geladen (für deine Verbindung optimiert)...",
+  loadingSlowHint: "Bitte warten, Optimierung für langsame Verbindung",
+  signedInAs: "Angemeldet als {name}",
+  notYou: "Nicht du?",
+  continue: "Weiter",
+  closesIn: (seconds) => `Dieses Fenster schließt sich automatisch in ${seconds} Sekunde${seconds !== 1 ? "n" : ""}.`,
+  closeTab: "Schließe diesen Tab, um zu Discord zurückzukehren.",
+  signInWithDiscord: "Mit Discord anmelden",
+  reference: "Referenz",
+  tryAgain: "Erneut versuchen",
+  attempt: (attempt) => `Versuch ${attempt}`,
+  pleaseWait: "Bitte warten...",
+  copyright: "Copyright © 2025 alle Rechte vorbehalten.",
+  loadingWallpaper: "Hintergrund wird geladen...",
+  sidePanelHeadline:
+    "Von DevNest entwickeltes Verifizierungssystem, das die Mitglieder von {name} vor Hackern und Spammern schützt",
+  serverAdmin: "Server-Admin",
+  authErrors: {
+    state: "Die Anmeldung ist abgelaufen oder wurde in einem anderen Browser gestartet – bitte versuche es erneut.",
+    denied: "Die Discord-Anmeldung wurde abgebrochen.",
+    failed: "Die Discord-Anmeldung ist fehlgeschlagen – bitte versuche es erneut.",
+  },
+  clientErrors: {
+    network: "Netzwerkfehler – bitte prüfe deine Verbindung und versuche es erneut.",
+    timeout: "Der Server hat zu lange gebraucht – bitte versuche es erneut.",
+    config: "Die Verifizierungseinstellungen konnten nicht geladen werden",
+    noSiteKey: "Konfigurationsfehler: Kein Site-Key verfügbar",
+    captchaLoad: "Das Captcha konnte nicht geladen werden",
+    captchaToken: "Das Captcha-Token konnte nicht erzeugt werden",
+    captchaExecution: "Das Captcha ist fehlgeschlagen – bitte versuche es erneut.",
+    challenge: "Die Aufgabe ist fehlgeschlagen – bitte versuche es erneut.",
+  },
+  errors: {
+    INVALID_REQUEST: "Ungültige Verifizierungsanfrage. Bitte versuche es erneut.",
+    INVALID_LINK: "Ungültiger Verifizierungslink",
+    LINK_EXPIRED: "Dieser Verifizierungslink ist abgelaufen – bitte fordere einen neuen an",
+    LINK_USED: "Dieser Verifizierungslink wurde bereits verwendet",
+    SESSION_INVALID: "Verifizierungssitzung nicht gefunden – bitte versuche es erneut",
+    SESSION_EXPIRED: "Die Verifizierungssitzung ist abgelaufen – bitte versuche es erneut",
+    RATE_LIMITED: "Zu viele Verifizierungsversuche – bitte warte kurz und versuche es erneut",
+    ATTEMPT_LIMIT_REACHED: "Zu viele Verifizierungsversuche – bitte fordere einen neuen Link an",
+    SIGN_IN_REQUIRED: "Bitte melde dich zur Verifizierung mit Discord an",
+    NOT_GUILD_MEMBER: "Du bist kein Mitglied dieses Discord-Servers.",
+    IP_DENIED: "Verifizierungen aus deinem Netzwerk oder Standort sind auf diesem Server nicht erlaubt.",
+    ALT_ACCOUNT_BLOCKED:
+      "Dieses Gerät oder Netzwerk wurde auf diesem Server bereits zur Verifizierung anderer Konten verwendet.",
+    CAPTCHA_MISSING: "Kein Captcha übermittelt",
+    CAPTCHA_REPLAYED: "Dieses Captcha wurde bereits verwendet – bitte versuche es erneut",
+    CAPTCHA_EXPIRED: "Das Captcha ist abgelaufen – bitte versuche es erneut",
+    CAPTCHA_FAILED: "Captcha-Prüfung fehlgeschlagen",
+    CAPTCHA_ACTION_MISMATCH: "Captcha-Aktion stimmt nicht überein",
+    CAPTCHA_HOSTNAME_MISMATCH: "Das Captcha wurde auf einer nicht erlaubten Seite gelöst",
+    CAPTCHA_TOKEN_TOO_OLD: "Das Captcha ist zu alt – bitte versuche es erneut",
+    CAPTCHA_LOW_SCORE: "Verifizierungswert zu niedrig",
+    STEP_UP_REQUIRED: "Zusätzliche Verifizierung erforderlich",
+    DISCORD_ROLE_MISSING: "Die für diesen Server eingestellte Verifiziert-Rolle existiert nicht mehr.",
+    DISCORD_MISSING_PERMISSIONS: "Dem Bot fehlen die Rechte, um die Verifiziert-Rolle zu vergeben.",
+    DISCORD_RATE_LIMITED: "Discord begrenzt gerade die Anfragen. Bitte versuche es gleich noch einmal.",
+    DISCORD_ERROR: "Die Verifizierung mit dem Discord-Server konnte nicht abgeschlossen werden",
+    DOWNSTREAM_TIMEOUT: "Der Discord-Server antwortet zu langsam. Bitte versuche es erneut.",
+    DOWNSTREAM_UNREACHABLE: "Keine Verbindung zum Discord-Server. Bitte versuche es später erneut.",
+    DOWNSTREAM_ERROR: "Beim Discord-Server ist ein Fehler aufgetreten. Bitte versuche es erneut.",
+    DOWNSTREAM_REJECTED: "Die Verifizierung mit dem Discord-Server konnte nicht abgeschlossen werden",
+    UNAUTHORIZED: "Nicht autorisiert",
+    SERVER_MISCONFIGURED: "Konfigurationsfehler auf dem Server",
+    INTERNAL_ERROR: "Interner Serverfehler",
+  },
+}
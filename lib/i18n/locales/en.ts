@@ -0,0 +1,84 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const en: Messages = {
+  direction: "ltr",
+  title: "Verify yourself",
+  subtitle: "You can use our server channels if you're verified with our security system.",
+  status: {
+    loading: "Loading…",
+    signin: "Sign in with Discord to continue.",
+    token: "Checking your captcha…",
+    risk: "Analyzing activity…",
+    delivery: "Waiting for the Discord server…",
+    webhook: "Finishing up…",
+    challenge: "One more step - please complete the challenge below.",
+    success: "Verified Successfully!",
+    error: "Verification failed. Please try again.",
+  },
+  loading: "Loading...",
+  loadingSlow: "Loading (optimized for your connection)...",
+  loadingSlowHint: "Please wait, optimizing for slower connection",
+  signedInAs: "Signed in as {name}",
+  notYou: "Not you?",
+  continue: "Continue",
+  closesIn: (seconds) => `This window will close automatically in ${seconds} second${seconds !== 1 ? "s" : ""}.`,
+  closeTab: "Please close this tab to return to Discord.",
+  signInWithDiscord: "Sign in with Discord",
+  reference: "Reference",
+  tryAgain: "Try Again",
+  attempt: (attempt) => `Attempt ${attempt}`,
+  pleaseWait: "Please wait...",
+  copyright: "Copyright © 2025 all rights reserved.",
+  loadingWallpaper: "Loading wallpaper...",
+  sidePanelHeadline: "Verification system developed by DevNest to protect {name} members from hackers and spammers",
+  serverAdmin: "Server Admin",
+  authErrors: {
+    state: "Sign-in expired or was started in another browser - please try again.",
+    denied: "Discord sign-in was cancelled.",
+    failed: "Discord sign-in failed - please try again.",
+  },
+  clientErrors: {
+    network: "Network error - please check your connection and try again.",
+    timeout: "The server took too long to answer - please try again.",
+    config: "Failed to load verification configuration",
+    noSiteKey: "Configuration error: No site key available",
+    captchaLoad: "Failed to load captcha script",
+    captchaToken: "Failed to generate captcha token",
+    captchaExecution: "Captcha execution failed - please try again.",
+    challenge: "Challenge failed - please try again.",
+  },
+  errors: {
+    INVALID_REQUEST: "Invalid verification request. Please try again.",
+    INVALID_LINK: "Invalid verification link",
+    LINK_EXPIRED: "This verification link has expired - please request a new one",
+    LINK_USED: "This verification link has already been used",
+    SESSION_INVALID: "Verification session not found - please try again",
+    SESSION_EXPIRED: "Verification session expired - please try again",
+    RATE_LIMITED: "Too many verification attempts - please wait and try again",
+    ATTEMPT_LIMIT_REACHED: "Too many verification attempts - please request a new link",
+    SIGN_IN_REQUIRED: "Please sign in with Discord to verify",
+    NOT_GUILD_MEMBER: "You are not a member of this Discord server.",
+    IP_DENIED: "Verification from your network or location is not allowed on this server.",
+    ALT_ACCOUNT_BLOCKED: "This device or network has already been used to verify other accounts on this server.",
+    CAPTCHA_MISSING: "No captcha token provided",
+    CAPTCHA_REPLAYED: "This captcha token has already been used - please try again",
+    CAPTCHA_EXPIRED: "The captcha expired - please try again",
+    CAPTCHA_FAILED: "Captcha verification failed",
+    CAPTCHA_ACTION_MISMATCH: "Captcha action mismatch",
+    CAPTCHA_HOSTNAME_MISMATCH: "Captcha hostname not allowed",
+    CAPTCHA_TOKEN_TOO_OLD: "The captcha took too long - please try again",
+    CAPTCHA_LOW_SCORE: "Verification score too low",
+    STEP_UP_REQUIRED: "Additional verification required",
+    DISCORD_ROLE_MISSING: "The verified role configured for this server no longer exists.",
+    DISCORD_MISSING_PERMISSIONS: "The bot is missing permissions to assign the verified role.",
+    DISCORD_RATE_LIMITED: "Discord is rate limiting requests. Please try again shortly.",
+    DISCORD_ERROR: "Failed to complete verification with Discord server",
+    DOWNSTREAM_TIMEOUT: "Discord server is taking too long to respond. Please try again.",
+    DOWNSTREAM_UNREACHABLE: "Cannot connect to Discord server. Please try again later.",
+    DOWNSTREAM_ERROR: "Discord server encountered an error. Please try again.",
+    DOWNSTREAM_REJECTED: "Failed to complete verification with Discord server",
+    UNAUTHORIZED: "Not authorized",
+    SERVER_MISCONFIGURED: "Server configuration error",
+    INTERNAL_ERROR: "Internal server error",
+  },
+}
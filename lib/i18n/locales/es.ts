@@ -0,0 +1,86 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const es: Messages = {
+  direction: "ltr",
+  title: "Verifícate",
+  subtitle: "Podrás usar los canales del servidor cuando nuestro sistema de seguridad te haya verificado.",
+  status: {
+    loading: "Cargando…",
+    signin: "Inicia sesión con Discord para continuar.",
+    token: "Comprobando el captcha…",
+    risk: "Analizando actividad…",
+    delivery: "Esperando al servidor de Discord…",
+    webhook: "Terminando…",
+    challenge: "Un paso más: completa el desafío de abajo.",
+    success: "¡Verificación completada!",
+    error: "La verificación falló. Inténtalo de nuevo.",
+  },
+  loading: "Cargando...",
+  loadingSlow: "Cargando (optimizado para tu conexión)...",
+  loadingSlowHint: "Espera un momento, optimizando para una conexión lenta",
+  signedInAs: "Sesión iniciada como {name}",
+  notYou: "¿No eres tú?",
+  continue: "Continuar",
+  closesIn: (seconds) =>
+    `Esta ventana se cerrará automáticamente en ${seconds} segundo${seconds !== 1 ? "s" : ""}.`,
+  closeTab: "Cierra esta pestaña para volver a Discord.",
+  signInWithDiscord: "Iniciar sesión con Discord",
+  reference: "Referencia",
+  tryAgain: "Reintentar",
+  attempt: (attempt) => `Intento ${attempt}`,
+  pleaseWait: "Espera...",
+  copyright: "Copyright © 2025 todos los derechos reservados.",
+  loadingWallpaper: "Cargando fondo...",
+  sidePanelHeadline:
+    "Sistema de verificación desarrollado por DevNest para proteger a los miembros de {name} de hackers y spammers",
+  serverAdmin: "Administrador del servidor",
+  authErrors: {
+    state: "El inicio de sesión caducó o se inició en otro navegador. Inténtalo de nuevo.",
+    denied: "Se canceló el inicio de sesión con Discord.",
+    failed: "Falló el inicio de sesión con Discord. Inténtalo de nuevo.",
+  },
+  clientErrors: {
+    network: "Error de red: comprueba tu conexión e inténtalo de nuevo.",
+    timeout: "El servidor tardó demasiado en responder. Inténtalo de nuevo.",
+    config: "No se pudo cargar la configuración de verificación",
+    noSiteKey: "Error de configuración: no hay clave de sitio disponible",
+    captchaLoad: "No se pudo cargar el captcha",
+    captchaToken: "No se pudo generar el token del captcha",
+    captchaExecution: "El captcha falló. Inténtalo de nuevo.",
+    challenge: "El desafío falló. Inténtalo de nuevo.",
+  },
+  errors: {
+    INVALID_REQUEST: "Solicitud de verificación no válida. Inténtalo de nuevo.",
+    INVALID_LINK: "Enlace de verificación no válido",
+    LINK_EXPIRED: "Este enlace de verificación ha caducado; solicita uno nuevo",
+    LINK_USED: "Este enlace de verificación ya se ha usado",
+    SESSION_INVALID: "No se encontró la sesión de verificación. Inténtalo de nuevo",
+    SESSION_EXPIRED: "La sesión de verificación caducó. Inténtalo de nuevo",
+    RATE_LIMITED: "Demasiados intentos de verificación. Espera y vuelve a intentarlo",
+    ATTEMPT_LIMIT_REACHED: "Demasiados intentos de verificación; solicita un enlace nuevo",
+    SIGN_IN_REQUIRED: "Inicia sesión con Discord para verificarte",
+    NOT_GUILD_MEMBER: "No eres miembro de este servidor de Discord.",
+    IP_DENIED: "Este servidor no permite verificaciones desde tu red o ubicación.",
+    ALT_ACCOUNT_BLOCKED: "Este dispositivo o red ya se ha usado para verificar otras cuentas en este servidor.",
+    CAPTCHA_MISSING: "No se recibió el captcha",
+    CAPTCHA_REPLAYED: "Este captcha ya se ha usado. Inténtalo de nuevo",
+    CAPTCHA_EXPIRED: "El captcha caducó. Inténtalo de nuevo",
+    CAPTCHA_FAILED: "La verificación del captcha falló",
+    CAPTCHA_ACTION_MISMATCH: "La acción del captcha no coincide",
+    CAPTCHA_HOSTNAME_MISMATCH: "El captcha se resolvió en un sitio no permitido",
+    CAPTCHA_TOKEN_TOO_OLD: "El captcha tardó demasiado. Inténtalo de nuevo",
+    CAPTCHA_LOW_SCORE: "Puntuación de verificación demasiado baja",
+    STEP_UP_REQUIRED: "Se necesita una verificación adicional",
+    DISCORD_ROLE_MISSING: "El rol de verificado configurado para este servidor ya no existe.",
+    DISCORD_MISSING_PERMISSIONS: "El bot no tiene permisos para asignar el rol de verificado.",
+    DISCORD_RATE_LIMITED: "Discord está limitando las solicitudes. Inténtalo de nuevo en un momento.",
+    DISCORD_ERROR: "No se pudo completar la verificación con el servidor de Discord",
+    DOWNSTREAM_TIMEOUT: "El servidor de Discord tarda demasiado en responder. Inténtalo de nuevo.",
+    DOWNSTREAM_UNREACHABLE: "No se puede conectar con el servidor de Discord. Inténtalo más tarde.",
+    DOWNSTREAM_ERROR: "El servidor de Discord tuvo un error. Inténtalo de nuevo.",
+    DOWNSTREAM_REJECTED: "No se pudo completar la verificación con el servidor de Discord",
+    UNAUTHORIZED: "No autorizado",
+    SERVER_MISCONFIGURED: "Error de configuración del servidor",
+    INTERNAL_ERROR: "Error interno del servidor",
+  },
+}
@@ -0,0 +1,84 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const ja: Messages = {
+  direction: "ltr",
+  title: "認証してください",
+  subtitle: "セキュリティシステムで認証されると、サーバーのチャンネルを利用できるようになります。",
+  status: {
+    loading: "読み込み中…",
+    signin: "続行するには Discord でサインインしてください。",
+    token: "CAPTCHA を確認中…",
+    risk: "アクティビティを分析中…",
+    delivery: "Discord サーバーの応答を待っています…",
+    webhook: "完了処理中…",
+    challenge: "あと一歩です。下のチャレンジを完了してください。",
+    success: "認証が完了しました！",
+    error: "認証に失敗しました。もう一度お試しください。",
+  },
+  loading: "読み込み中...",
+  loadingSlow: "読み込み中（接続速度に合わせて最適化しています）...",
+  loadingSlowHint: "低速な接続向けに最適化しています。しばらくお待ちください",
+  signedInAs: "{name} としてサインイン中",
+  notYou: "別のアカウントですか？",
+  continue: "続ける",
+  closesIn: (seconds) => `このウィンドウは ${seconds} 秒後に自動的に閉じます。`,
+  closeTab: "このタブを閉じて Discord に戻ってください。",
+  signInWithDiscord: "Discord でサインイン",
+  reference: "参照番号",
+  tryAgain: "再試行",
+  attempt: (attempt) => `${attempt} 回目の試行`,
+  pleaseWait: "お待ちください...",
+  copyright: "Copyright © 2025 all rights reserved.",
+  loadingWallpaper: "壁紙を読み込み中...",
+  sidePanelHeadline: "{name} のメンバーをハッカーやスパマーから守るために DevNest が開発した認証システム",
+  serverAdmin: "サーバー管理者",
+  authErrors: {
+    state: "サインインの有効期限が切れたか、別のブラウザで開始されました。もう一度お試しください。",
+    denied: "Discord のサインインがキャンセルされました。",
+    failed: "Discord のサインインに失敗しました。もう一度お試しください。",
+  },
+  clientErrors: {
+    network: "ネットワークエラーです。接続を確認してもう一度お試しください。",
+    timeout: "サーバーの応答に時間がかかりすぎています。もう一度お試しください。",
+    config: "認証設定を読み込めませんでした",
+    noSiteKey: "設定エラー: サイトキーがありません",
+    captchaLoad: "CAPTCHA を読み込めませんでした",
+    captchaToken: "CAPTCHA トークンを生成できませんでした",
+    captchaExecution: "CAPTCHA に失敗しました。もう一度お試しください。",
+    challenge: "チャレンジに失敗しました。もう一度お試しください。",
+  },
+  errors: {
+    INVALID_REQUEST: "認証リクエストが無効です。もう一度お試しください。",
+    INVALID_LINK: "認証リンクが無効です",
+    LINK_EXPIRED: "この認証リンクは有効期限が切れています。新しいリンクを取得してください",
+    LINK_USED: "この認証リンクはすでに使用されています",
+    SESSION_INVALID: "認証セッションが見つかりません。もう一度お試しください",
+    SESSION_EXPIRED: "認証セッションの有効期限が切れました。もう一度お試しください",
+    RATE_LIMITED: "認証の試行回数が多すぎます。しばらく待ってからもう一度お試しください",
+    ATTEMPT_LIMIT_REACHED: "認証の試行回数が多すぎます。新しいリンクを取得してください",
+    SIGN_IN_REQUIRED: "認証するには Discord でサインインしてください",
+    NOT_GUILD_MEMBER: "この Discord サーバーのメンバーではありません。",
+    IP_DENIED: "このサーバーでは、お使いのネットワークまたは地域からの認証は許可されていません。",
+    ALT_ACCOUNT_BLOCKED: "このデバイスまたはネットワークは、このサーバーで他のアカウントの認証にすでに使用されています。",
+    CAPTCHA_MISSING: "CAPTCHA が送信されていません",
+    CAPTCHA_REPLAYED: "この CAPTCHA はすでに使用されています。もう一度お試しください",
+    CAPTCHA_EXPIRED: "CAPTCHA の有効期限が切れました。もう一度お試しください",
+    CAPTCHA_FAILED: "CAPTCHA の検証に失敗しました",
+    CAPTCHA_ACTION_MISMATCH: "CAPTCHA のアクションが一致しません",
+    CAPTCHA_HOSTNAME_MISMATCH: "許可されていないサイトで CAPTCHA が解かれました",
+    CAPTCHA_TOKEN_TOO_OLD: "CAPTCHA の有効時間を過ぎました。もう一度お試しください",
+    CAPTCHA_LOW_SCORE: "認証スコアが低すぎます",
+    STEP_UP_REQUIRED: "追加の認証が必要です",
+    DISCORD_ROLE_MISSING: "このサーバーに設定された認証済みロールは存在しません。",
+    DISCORD_MISSING_PERMISSIONS: "Bot に認証済みロールを付与する権限がありません。",
+    DISCORD_RATE_LIMITED: "Discord のレート制限中です。しばらくしてからもう一度お試しください。",
+    DISCORD_ERROR: "Discord サーバーでの認証を完了できませんでした",
+    DOWNSTREAM_TIMEOUT: "Discord サーバーの応答に時間がかかっています。もう一度お試しください。",
+    DOWNSTREAM_UNREACHABLE: "Discord サーバーに接続できません。後でもう一度お試しください。",
+    DOWNSTREAM_ERROR: "Discord サーバーでエラーが発生しました。もう一度お試しください。",
+    DOWNSTREAM_REJECTED: "Discord サーバーでの認証を完了できませんでした",
+    UNAUTHORIZED: "認証されていません",
+    SERVER_MISCONFIGURED: "サーバーの設定エラーです",
+    INTERNAL_ERROR: "サーバー内部エラーです",
+  },
+}
@@ -0,0 +1,86 @@
+import type { Messages } from "@/lib/i18n/types"
+
+export const pt: Messages = {
+  direction: "ltr",
+  title: "Verifique-se",
+  subtitle: "Você poderá usar os canais do servidor depois de ser verificado pelo nosso sistema de segurança.",
+  status: {
+    loading: "Carregando…",
+    signin: "Entre com o Discord para continuar.",
+    token: "Verificando o captcha…",
+    risk: "Analisando atividade…",
+    delivery: "Aguardando o servidor do Discord…",
+    webhook: "Finalizando…",
+    challenge: "Só mais um passo: complete o desafio abaixo.",
+    success: "Verificação concluída!",
+    error: "A verificação falhou. Tente novamente.",
+  },
+  loading: "Carregando...",
+  loadingSlow: "Carregando (otimizado para sua conexão)...",
+  loadingSlowHint: "Aguarde, otimizando para uma conexão lenta",
+  signedInAs: "Conectado como {name}",
+  notYou: "Não é você?",
+  continue: "Continuar",
+  closesIn: (seconds) =>
+    `Esta janela será fechada automaticamente em ${seconds} segundo${seconds !== 1 ? "s" : ""}.`,
+  closeTab: "Feche esta aba para voltar ao Discord.",
+  signInWithDiscord: "Entrar com o Discord",
+  reference: "Referência",
+  tryAgain: "Tentar novamente",
+  attempt: (attempt) => `Tentativa ${attempt}`,
+  pleaseWait: "Aguarde...",
+  copyright: "Copyright © 2025 todos os direitos reservados.",
+  loadingWallpaper: "Carregando papel de parede...",
+  sidePanelHeadline:
+    "Sistema de verificação desenvolvido pela DevNest para proteger os membros de {name} contra hackers e spammers",
+  serverAdmin: "Administrador do servidor",
+  authErrors: {
+    state: "O login expirou ou foi iniciado em outro navegador. Tente novamente.",
+    denied: "O login com o Discord foi cancelado.",
+    failed: "O login com o Discord falhou. Tente novamente.",
+  },
+  clientErrors: {
+    network: "Erro de rede: verifique sua conexão e tente novamente.",
+    timeout: "O servidor demorou demais para responder. Tente novamente.",
+    config: "Não foi possível carregar a configuração de verificação",
+    noSiteKey: "Erro de configuração: nenhuma chave de site disponível",
+    captchaLoad: "Não foi possível carregar o captcha",
+    captchaToken: "Não foi possível gerar o token do captcha",
+    captchaExecution: "O captcha falhou. Tente novamente.",
+    challenge: "O desafio falhou. Tente novamente.",
+  },
+  errors: {
+    INVALID_REQUEST: "Solicitação de verificação inválida. Tente novamente.",
+    INVALID_LINK: "Link de verificação inválido",
+    LINK_EXPIRED: "Este link de verificação expirou; solicite um novo",
+    LINK_USED: "Este link de verificação já foi usado",
+    SESSION_INVALID: "Sessão de verificação não encontrada. Tente novamente",
+    SESSION_EXPIRED: "A sessão de verificação expirou. Tente novamente",
+    RATE_LIMITED: "Muitas tentativas de verificação. Aguarde e tente novamente",
+    ATTEMPT_LIMIT_REACHED: "Muitas tentativas de verificação; solicite um novo link",
+    SIGN_IN_REQUIRED: "Entre com o Discord para se verificar",
+    NOT_GUILD_MEMBER: "Você não é membro deste servidor do Discord.",
+    IP_DENIED: "Este servidor não permite verificações da sua rede ou localização.",
+    ALT_ACCOUNT_BLOCKED: "Este dispositivo ou rede já foi usado para verificar outras contas neste servidor.",
+    CAPTCHA_MISSING: "Nenhum captcha recebido",
+    CAPTCHA_REPLAYED: "Este captcha já foi usado. Tente novamente",
+    CAPTCHA_EXPIRED: "O captcha expirou. Tente novamente",
+    CAPTCHA_FAILED: "A verificação do captcha falhou",
+    CAPTCHA_ACTION_MISMATCH: "A ação do captcha não confere",
+    CAPTCHA_HOSTNAME_MISMATCH: "O captcha foi resolvido em um site não permitido",
+    CAPTCHA_TOKEN_TOO_OLD: "O captcha demorou demais. Tente novamente",
+    CAPTCHA_LOW_SCORE: "Pontuação de verificação muito baixa",
+    STEP_UP_REQUIRED: "É necessária uma verificação adicional",
+    DISCORD_ROLE_MISSING: "O cargo de verificado configurado para este servidor não existe mais.",
+    DISCORD_MISSING_PERMISSIONS: "O bot não tem permissão para atribuir o cargo de verificado.",
+    DISCORD_RATE_LIMITED: "O Discord está limitando as solicitações. Tente novamente em instantes.",
+    DISCORD_ERROR: "Não foi possível concluir a verificação com o servidor do Discord",
+    DOWNSTREAM_TIMEOUT: "O servidor do Discord está demorando para responder. Tente novamente.",
+    DOWNSTREAM_UNREACHABLE: "Não foi possível conectar ao servidor do Discord. Tente mais tarde.",
+    DOWNSTREAM_ERROR: "O servidor do Discord encontrou um erro. Tente novamente.",
+    DOWNSTREAM_REJECTED: "Não foi possível concluir a verificação com o servidor do Discord",
+    UNAUTHORIZED: "Não autorizado",
+    SERVER_MISCONFIGURED: "Erro de configuração do servidor",
+    INTERNAL_ERROR: "Erro interno do servidor",
+  },
+}
@@ -0,0 +1,65 @@
+import type { VerifyErrorCode } from "@/lib/verify-api"
+
+export const supportedLocales = ["en", "es", "pt", "de", "ja", "ar"] as const
+
+export type Locale = (typeof supportedLocales)[number]
+
+export type TextDirection = "ltr" | "rtl"
+
+// Everything the verification page shows. `{name}` placeholders are filled in by the page.
+export interface Messages {
+  direction: TextDirection
+  title: string
+  subtitle: string
+  status: {
+    loading: string
+    signin: string
+    // One per /api/verify stage
+    token: string
+    risk: string
+    delivery: string
+    webhook: string
+    challenge: string
+    success: string
+    error: string
+  }
+  loading: string
+  loadingSlow: string
+  loadingSlowHint: string
+  // "Signed in as {name}"
+  signedInAs: string
+  notYou: string
+  continue: string
+  closesIn: (seconds: number) => string
+  closeTab: string
+  signInWithDiscord: string
+  reference: string
+  tryAgain: string
+  attempt: (attempt: number) => string
+  pleaseWait: string
+  copyright: string
+  loadingWallpaper: string
+  // "… to protect {name} members …"
+  sidePanelHeadline: string
+  serverAdmin: string
+  // Why the Discord sign-in callback sent the user back, from ?auth_error=
+  authErrors: {
+    state: string
+    denied: string
+    failed: string
+  }
+  // Failures noticed in the browser before or without a server answer
+  clientErrors: {
+    network: string
+    // The verify request got no answer in time
+    timeout: string
+    config: string
+    noSiteKey: string
+    captchaLoad: string
+    captchaToken: string
+    captchaExecution: string
+    challenge: string
+  }
+  // What the server's stable error codes mean to the user
+  errors: Record<VerifyErrorCode, string>
+}
@@ -0,0 +1,183 @@
+import { promises as fs } from "fs"
+import { type AnonymousIPResponse, type AsnResponse, type CountryResponse, Reader } from "mmdb-lib"
+import { isIP } from "net"
+import { type CidrSet, createCidrSet } from "@/lib/cidr"
+import { logger } from "@/lib/logger"
+
+// Local databases are re-read at most this often, so replaced files get picked up without a restart
+const RELOAD_CHECK_MS = 60_000
+
+export interface IpIntel {
+  ip: string
+  // ISO 3166-1 alpha-2, e.g. "DE"
+  country: string | null
+  asn: number | null
+  asnOrg: string | null
+  // Anonymous IP database or a proxy CIDR list matched
+  proxy: boolean
+  // Anonymous IP database or a hosting CIDR list matched
+  hosting: boolean
+}
+
+export type IpRuleAction = "allow" | "flag" | "deny"
+
+export interface IpRules {
+  proxy: IpRuleAction
+  hosting: IpRuleAction
+  // ISO country codes and AS numbers that trigger their action
+  countries: string[]
+  countryAction: IpRuleAction
+  asns: number[]
+  asnAction: IpRuleAction
+  // Networks that always pass, e.g. a school behind a known proxy
+  allowCidrs: string[]
+}
+
+export interface IpRuleDecision {
+  action: IpRuleAction
+  // Which rules matched, e.g. ["proxy", "country:RU"]
+  reasons: string[]
+}
+
+interface CachedSource<T> {
+  value: T
+  mtimes: number[]
+  checkedAt: number
+}
+
+const cache = new Map<string, CachedSource<unknown>>()
+
+function getPathsEnv(name: string) {
+  return (process.env[name] || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Loads (and caches) something built from local files, rebuilding it when any file's
+ * mtime changes. Missing or unreadable files are logged and treated as absent.
+ */
+async function loadCached<T>(key: string, paths: string[], build: (contents: Buffer[]) => T): Promise<T | null> {
+  if (paths.length === 0) return null
+
+  const cached = cache.get(key) as CachedSource<T> | undefined
+  const now = Date.now()
+  if (cached && now - cached.checkedAt < RELOAD_CHECK_MS) {
+    return cached.value
+  }
+
+  try {
+    const mtimes = await Promise.all(paths.map(async (filePath) => (await fs.stat(filePath)).mtimeMs))
+    if (cached && mtimes.every((mtime, i) => mtime === cached.mtimes[i])) {
+      cached.checkedAt = now
+      return cached.value
+    }
+
+    const value = build(await Promise.all(paths.map((filePath) => fs.readFile(filePath))))
+    cache.set(key, { value, mtimes, checkedAt: now })
+    logger.info("Loaded IP intelligence source", { source: key, paths })
+    return value
+  } catch (error) {
+    logger.error("Failed to load IP intelligence source", { source: key, error })
+    // Keep serving the last good copy rather than silently dropping the rules
+    if (cached) {
+      cached.checkedAt = now
+      return cached.value
+    }
+    return null
+  }
+}
+
+function loadMmdb<T extends CountryResponse | AsnResponse | AnonymousIPResponse>(env: string) {
+  return loadCached(env, getPathsEnv(env), ([db]) => new Reader<T>(db))
+}
+
+function loadCidrList(env: string) {
+  return loadCached<CidrSet>(env, getPathsEnv(env), (files) =>
+    createCidrSet(files.flatMap((file) => file.toString("utf8").split(/\r?\n/))),
+  )
+}
+
+function safeGet<T>(reader: Reader<T & object> | null, ip: string): T | null {
+  if (!reader) return null
+  try {
+    return reader.get(ip)
+  } catch {
+    // mmdb-lib throws for IPv6 lookups against IPv4-only databases
+    return null
+  }
+}
+
+export function isIpIntelConfigured() {
+  return [
+    "GEOIP_COUNTRY_DB",
+    "GEOIP_ASN_DB",
+    "GEOIP_ANONYMOUS_DB",
+    "PROXY_CIDR_FILES",
+    "HOSTING_CIDR_FILES",
+  ].some((env) => getPathsEnv(env).length > 0)
+}
+
+/**
+ * Looks an address up in the configured local sources: MaxMind-format databases
+ * (GEOIP_COUNTRY_DB, GEOIP_ASN_DB, GEOIP_ANONYMOUS_DB) and CIDR list files
+ * (PROXY_CIDR_FILES, HOSTING_CIDR_FILES, comma separated). Never calls out to the network.
+ */
+export async function lookupIp(ip: string): Promise<IpIntel> {
+  const intel: IpIntel = { ip, country: null, asn: null, asnOrg: null, proxy: false, hosting: false }
+  if (!isIP(ip)) return intel
+
+  const [countryDb, asnDb, anonymousDb, proxyList, hostingList] = await Promise.all([
+    loadMmdb<CountryResponse>("GEOIP_COUNTRY_DB"),
+    loadMmdb<AsnResponse>("GEOIP_ASN_DB"),
+    loadMmdb<AnonymousIPResponse>("GEOIP_ANONYMOUS_DB"),
+    loadCidrList("PROXY_CIDR_FILES"),
+    loadCidrList("HOSTING_CIDR_FILES"),
+  ])
+
+  const country = safeGet<CountryResponse>(countryDb, ip)
+  intel.country = country?.country?.iso_code || country?.registered_country?.iso_code || null
+
+  const asn = safeGet<AsnResponse>(asnDb, ip)
+  intel.asn = asn?.autonomous_system_number ?? null
+  intel.asnOrg = asn?.autonomous_system_organization ?? null
+
+  const anonymous = safeGet<AnonymousIPResponse>(anonymousDb, ip)
+  intel.proxy = Boolean(
+    anonymous?.is_anonymous_proxy ||
+      anonymous?.is_anonymous_vpn ||
+      anonymous?.is_public_proxy ||
+      anonymous?.is_tor_exit_node ||
+      proxyList?.contains(ip),
+  )
+  intel.hosting = Boolean(anonymous?.is_hosting_provider || hostingList?.contains(ip))
+
+  return intel
+}
+
+const severity: Record<IpRuleAction, number> = { allow: 0, flag: 1, deny: 2 }
+
+// The strictest action among the rules the address matched
+export function evaluateIpRules(intel: IpIntel, rules: IpRules): IpRuleDecision {
+  if (rules.allowCidrs.length > 0 && createCidrSet(rules.allowCidrs).contains(intel.ip)) {
+    return { action: "allow", reasons: ["allowlisted"] }
+  }
+
+  const matches: [string, IpRuleAction][] = []
+  if (intel.proxy) matches.push(["proxy", rules.proxy])
+  if (intel.hosting) matches.push(["hosting", rules.hosting])
+  if (intel.country && rules.countries.includes(intel.country)) {
+    matches.push([`country:${intel.country}`, rules.countryAction])
+  }
+  if (intel.asn !== null && rules.asns.includes(intel.asn)) {
+    matches.push([`asn:${intel.asn}`, rules.asnAction])
+  }
+
+  const triggered = matches.filter(([, action]) => action !== "allow")
+  const action = triggered.reduce<IpRuleAction>(
+    (strictest, [, next]) => (severity[next] > severity[strictest] ? next : strictest),
+    "allow",
+  )
+  return { action, reasons: triggered.map(([reason]) => reason) }
+}
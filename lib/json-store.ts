@@ -0,0 +1,111 @@
+import { promises as fs } from "fs"
+import path from "path"
+
+// Local persistence for small server-side datasets (policies, queues, logs)
+export function getDataDir() {
+  return process.env.DATA_DIR || path.join(process.cwd(), "data")
+}
+
+export function getDataPath(name: string) {
+  return path.join(getDataDir(), name)
+}
+
+// Writes to the same file are chained so concurrent requests never interleave
+const locks = new Map<string, Promise<unknown>>()
+
+function withLock<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const previous = locks.get(name) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(task)
+  locks.set(name, next)
+  next.finally(() => {
+    if (locks.get(name) === next) locks.delete(name)
+  }).catch(() => undefined)
+  return next
+}
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(getDataPath(name), "utf8")
+    return JSON.parse(raw) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return fallback
+    }
+    throw error
+  }
+}
+
+async function writeJsonFileUnlocked(name: string, value: unknown) {
+  const filePath = getDataPath(name)
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+
+  // Write to a temp file first so a crash never leaves half a JSON document behind
+  const tempPath = `${filePath}.${process.pid}.tmp`
+  await fs.writeFile(tempPath, JSON.stringify(value, null, 2), "utf8")
+  await fs.rename(tempPath, filePath)
+}
+
+export function writeJsonFile(name: string, value: unknown) {
+  return withLock(name, () => writeJsonFileUnlocked(name, value))
+}
+
+/**
+ * Read-modify-write under the file's lock. The updater returns the new value and
+ * whatever the caller wants back.
+ */
+export function updateJsonFile<T, R>(name: string, fallback: T, updater: (current: T) => { value: T; result: R }) {
+  return withLock(name, async () => {
+    const current = await readJsonFile(name, fallback)
+    const { value, result } = updater(current)
+    await writeJsonFileUnlocked(name, value)
+    return result
+  })
+}
+
+// Append-only logs are stored as JSON Lines so each write is a single small append
+export function appendJsonLine(name: string, value: unknown) {
+  return withLock(name, async () => {
+    const filePath = getDataPath(name)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.appendFile(filePath, `${JSON.stringify(value)}\n`, "utf8")
+  })
+}
+
+export async function readJsonLines<T>(name: string): Promise<T[]> {
+  let raw: string
+  try {
+    raw = await fs.readFile(getDataPath(name), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+
+  const records: T[] = []
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line) as T)
+    } catch {
+      // A crash mid-append can leave one torn line; skip it rather than lose the log
+    }
+  }
+  return records
+}
+
+/**
+ * Rewrites a JSON Lines log under its lock, e.g. to purge or redact records. The
+ * updater returns the records to keep and whatever the caller wants back.
+ */
+export function updateJsonLines<T, R>(name: string, updater: (records: T[]) => { value: T[]; result: R }) {
+  return withLock(name, async () => {
+    const { value, result } = updater(await readJsonLines<T>(name))
+    const filePath = getDataPath(name)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, value.map((record) => `${JSON.stringify(record)}\n`).join(""), "utf8")
+    await fs.rename(tempPath, filePath)
+    return result
+  })
+}
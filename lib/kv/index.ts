@@ -0,0 +1,23 @@
+import { createMemoryStore } from "@/lib/kv/memory"
+import { createRedisStore } from "@/lib/kv/redis"
+import type { KeyValueStore } from "@/lib/kv/types"
+import { logger } from "@/lib/logger"
+
+export type { KeyValueStore } from "@/lib/kv/types"
+
+let store: KeyValueStore | null = null
+
+// Uses Redis when REDIS_REST_URL and REDIS_REST_TOKEN are set, memory otherwise
+export function getKeyValueStore() {
+  if (!store) {
+    const url = process.env.REDIS_REST_URL
+    const token = process.env.REDIS_REST_TOKEN
+    if (url && token) {
+      logger.info("Using Redis key-value store")
+      store = createRedisStore(url, token, process.env.REDIS_KEY_PREFIX || undefined)
+    } else {
+      store = createMemoryStore()
+    }
+  }
+  return store
+}
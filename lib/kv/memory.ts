@@ -0,0 +1,90 @@
+import type { KeyValueStore } from "@/lib/kv/types"
+
+interface Entry {
+  value: string
+  expiresAt: number
+}
+
+// Default store: fine for a single instance, lost on restart
+export function createMemoryStore(): KeyValueStore {
+  const entries = new Map<string, Entry>()
+  const windows = new Map<string, { hits: { at: number; member: string }[]; expiresAt: number }>()
+  let lastSweep = 0
+  let hitCount = 0
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return
+    lastSweep = now
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key)
+    }
+    for (const [key, window] of windows) {
+      if (window.expiresAt <= now) windows.delete(key)
+    }
+  }
+
+  const read = (key: string) => {
+    const now = Date.now()
+    sweep(now)
+    const entry = entries.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= now) {
+      entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  return {
+    async get(key) {
+      return read(key)?.value ?? null
+    },
+
+    async set(key, value, ttlMs) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    },
+
+    async setIfAbsent(key, value, ttlMs) {
+      if (read(key)) return false
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+      return true
+    },
+
+    async take(key) {
+      const entry = read(key)
+      entries.delete(key)
+      return entry?.value ?? null
+    },
+
+    async delete(key) {
+      entries.delete(key)
+    },
+
+    async increment(key, ttlMs) {
+      const entry = read(key)
+      const next = (entry ? Number(entry.value) : 0) + 1
+      entries.set(key, { value: String(next), expiresAt: entry?.expiresAt ?? Date.now() + ttlMs })
+      return next
+    },
+
+    async recordHit(key, limit, windowMs, now) {
+      sweep(now)
+      const window = windows.get(key) || { hits: [], expiresAt: 0 }
+      window.hits = window.hits.filter((hit) => hit.at > now - windowMs)
+      windows.set(key, window)
+      if (window.hits.length >= limit) {
+        // Room opens up once enough hits have aged out to drop below the limit
+        return { allowed: false, availableAt: window.hits[window.hits.length - limit].at + windowMs }
+      }
+      const member = `${now}:${++hitCount}`
+      window.hits.push({ at: now, member })
+      window.expiresAt = now + windowMs
+      return { allowed: true, member }
+    },
+
+    async removeHit(key, member) {
+      const window = windows.get(key)
+      if (window) window.hits = window.hits.filter((hit) => hit.member !== member)
+    },
+  }
+}
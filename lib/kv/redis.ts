@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto"
+import type { KeyValueStore } from "@/lib/kv/types"
+
+type Command = (string | number)[]
+
+// KEYS[1] = window, ARGV = now, windowMs, limit, member. Returns nil when the hit was recorded,
+// otherwise the time the window next has room
+const RECORD_HIT_SCRIPT = `
+local now, windowMs, limit = tonumber(ARGV[1]), tonumber(ARGV[2]), tonumber(ARGV[3])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - windowMs)
+local count = redis.call("ZCARD", KEYS[1])
+if count >= limit then
+  local hit = redis.call("ZRANGE", KEYS[1], count - limit, count - limit, "WITHSCORES")
+  return tostring(tonumber(hit[2]) + windowMs)
+end
+redis.call("ZADD", KEYS[1], now, ARGV[4])
+redis.call("PEXPIRE", KEYS[1], windowMs)
+return false
+`
+
+// KEYS[1] = counter, ARGV[1] = ttlMs. The TTL is only set by the increment that creates the key
+const INCREMENT_SCRIPT = `
+local count = redis.call("INCR", KEYS[1])
+if count == 1 then
+  redis.call("PEXPIRE", KEYS[1], ARGV[1])
+end
+return count
+`
+
+/**
+ * Redis adapter over the Redis REST protocol (Upstash, or serverless-redis-http in front
+ * of any Redis). Using HTTP keeps it working on serverless hosts without a TCP client.
+ * Needs Redis 6.2 or later (GETDEL).
+ */
+export function createRedisStore(baseUrl: string, token: string, prefix = "verify:"): KeyValueStore {
+  const url = baseUrl.replace(/\/+$/, "")
+  const k = (key: string) => `${prefix}${key}`
+
+  const request = async (path: string, body: unknown) => {
+    const response = await fetch(`${url}${path}`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+    if (!response.ok) {
+      throw new Error(`Redis REST API returned ${response.status}`)
+    }
+    return response.json()
+  }
+
+  const command = async (...args: Command) => {
+    const data = await request("", args)
+    if (data.error) throw new Error(`Redis error: ${data.error}`)
+    return data.result
+  }
+
+  return {
+    async get(key) {
+      return (await command("GET", k(key))) ?? null
+    },
+
+    async set(key, value, ttlMs) {
+      await command("SET", k(key), value, "PX", ttlMs)
+    },
+
+    async setIfAbsent(key, value, ttlMs) {
+      return (await command("SET", k(key), value, "PX", ttlMs, "NX")) === "OK"
+    },
+
+    async take(key) {
+      return (await command("GETDEL", k(key))) ?? null
+    },
+
+    async delete(key) {
+      await command("DEL", k(key))
+    },
+
+    async increment(key, ttlMs) {
+      return Number(await command("EVAL", INCREMENT_SCRIPT, 1, k(key), ttlMs))
+    },
+
+    async recordHit(key, limit, windowMs, now) {
+      // One script, so concurrent requests cannot both take the window's last slot
+      const member = `${now}:${randomUUID()}`
+      const availableAt = await command("EVAL", RECORD_HIT_SCRIPT, 1, k(key), now, windowMs, limit, member)
+      return availableAt == null ? { allowed: true, member } : { allowed: false, availableAt: Number(availableAt) }
+    },
+
+    async removeHit(key, member) {
+      await command("ZREM", k(key), member)
+    },
+  }
+}
@@ -0,0 +1,19 @@
+// `member` identifies the recorded hit, so it can be taken back with removeHit
+export type RecordHitResult = { allowed: true; member: string } | { allowed: false; availableAt: number }
+
+// Minimal key-value contract shared by the in-memory store and the Redis adapter
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  // Sets the key only when it does not exist yet; returns whether it was set
+  setIfAbsent(key: string, value: string, ttlMs: number): Promise<boolean>
+  // Reads and deletes in one step, so a value can only be redeemed once
+  take(key: string): Promise<string | null>
+  delete(key: string): Promise<void>
+  // Increments a counter; the TTL starts with the first increment
+  increment(key: string, ttlMs: number): Promise<number>
+  // Sliding-window log: records a hit at `now` unless the window already holds `limit` hits, in which
+  // case nothing is recorded and `availableAt` is when the window next has room
+  recordHit(key: string, limit: number, windowMs: number, now: number): Promise<RecordHitResult>
+  removeHit(key: string, member: string): Promise<void>
+}
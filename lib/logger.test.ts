@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { logger } from "@/lib/logger"
+
+// The fields of the line logged for `fields`
+function logged(fields: Record<string, unknown>) {
+  const log = vi.spyOn(console, "log").mockImplementation(() => {})
+  logger.info("test", fields)
+  return JSON.parse(log.mock.calls[0][0] as string)
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("logger", () => {
+  it("redacts tokens and secrets", () => {
+    const entry = logged({
+      token: "t",
+      accessToken: "a",
+      refresh_token: "r",
+      clientSecret: "s",
+      authorization: "Bearer x",
+      captchaToken: "c",
+    })
+    expect(entry).toMatchObject({
+      token: "[redacted]",
+      accessToken: "[redacted]",
+      refresh_token: "[redacted]",
+      clientSecret: "[redacted]",
+      authorization: "[redacted]",
+      captchaToken: "[redacted]",
+    })
+  })
+
+  it("keeps numeric diagnostics whose names mention a token", () => {
+    const entry = logged({ tokenAge: 42, maxTokenAgeSeconds: 120 })
+    expect(entry).toMatchObject({ tokenAge: 42, maxTokenAgeSeconds: 120 })
+  })
+
+  it("masks IPs to their network", () => {
+    expect(logged({ ip: "203.0.113.7" }).ip).toBe("203.0.113.0/24")
+  })
+})
@@ -0,0 +1,114 @@
+import { AsyncLocalStorage } from "async_hooks"
+import { isIPv4 } from "net"
+import { normalizeIp } from "@/lib/cidr"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+export type LogFields = Record<string, unknown>
+
+const levels: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+// Values under these keys never reach the logs. "token" only as the last word, so accessToken is
+// redacted but diagnostics such as tokenAge or maxTokenAgeSeconds are kept
+const SECRET_KEY = /tokens?$|secret|password|authorization|cookie|api_?key|captcha|nonce|signature/i
+// Personal data: IPs are reduced to their network, the rest is dropped
+const IP_KEY = /^(ip|user_?ip|client_?ip|remote_?ip)$/i
+const PERSONAL_KEY = /^(user_?agent|username|email|dm_?message)$/i
+
+const MAX_STRING_LENGTH = 300
+const MAX_DEPTH = 5
+
+interface RequestContext {
+  requestId: string
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>()
+
+export function runWithRequestContext<T>(context: RequestContext, task: () => T) {
+  return requestContext.run(context, task)
+}
+
+// Correlation ID of the request being handled, if any
+export function getRequestId() {
+  return requestContext.getStore()?.requestId
+}
+
+function getLogLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL as LogLevel
+  return level in levels ? level : "info"
+}
+
+// "203.0.113.7" -> "203.0.113.0/24", IPv6 to its /48; hashed IPs are already safe
+export function maskIp(value: string) {
+  if (value.startsWith("hash:") || value === "unknown") return value
+  const ip = normalizeIp(value)
+  if (!ip) return "[redacted]"
+  if (isIPv4(ip)) return `${ip.split(".").slice(0, 3).join(".")}.0/24`
+  const groups = ip.split("::")[0].split(":")
+  return `${[...groups, "0", "0", "0"].slice(0, 3).join(":")}::/48`
+}
+
+function truncate(text: string) {
+  return text.length > MAX_STRING_LENGTH ? `${text.slice(0, MAX_STRING_LENGTH)}…` : text
+}
+
+function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return truncate(value)
+  if (value === null || typeof value !== "object") return value
+  if (depth >= MAX_DEPTH) return "[truncated]"
+
+  if (value instanceof Error) {
+    const { status, code, kind } = value as Error & { status?: unknown; code?: unknown; kind?: unknown }
+    return {
+      name: value.name,
+      message: truncate(value.message),
+      ...(status !== undefined ? { status } : {}),
+      ...(code !== undefined ? { code } : {}),
+      ...(kind !== undefined ? { kind } : {}),
+      ...(getLogLevel() === "debug" && value.stack ? { stack: value.stack } : {}),
+    }
+  }
+  if (Array.isArray(value)) return value.map((item) => redact(item, depth + 1))
+
+  const result: LogFields = {}
+  for (const [key, field] of Object.entries(value)) {
+    if (SECRET_KEY.test(key)) {
+      result[key] = "[redacted]"
+    } else if (IP_KEY.test(key) && typeof field === "string") {
+      result[key] = maskIp(field)
+    } else if (PERSONAL_KEY.test(key) && field !== null && field !== undefined) {
+      result[key] = "[redacted]"
+    } else {
+      result[key] = redact(field, depth + 1)
+    }
+  }
+  return result
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  if (levels[level] < levels[getLogLevel()]) return
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    requestId: getRequestId(),
+    ...(fields ? (redact(fields) as LogFields) : {}),
+  }
+  const line = JSON.stringify(entry)
+  if (level === "error" || level === "warn") {
+    console.error(line)
+  } else {
+    console.log(line)
+  }
+}
+
+/**
+ * JSON-lines logger. Each line carries the request's correlation ID; secrets and
+ * personal data in `fields` are redacted before anything is written.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write("debug", message, fields),
+  info: (message: string, fields?: LogFields) => write("info", message, fields),
+  warn: (message: string, fields?: LogFields) => write("warn", message, fields),
+  error: (message: string, fields?: LogFields) => write("error", message, fields),
+}
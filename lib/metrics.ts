@@ -0,0 +1,173 @@
+const DEFAULT_MAX_GUILDS = 100
+
+// Guilds past the limit are all counted under this label
+const OVERFLOW_GUILD = "other"
+
+const SCORE_BUCKETS = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+type Labels = Record<string, string>
+// Every series is labelled by guild; a missing one is reported as "unknown"
+type LabelInput = { guild: string | null | undefined } & Record<string, string | null | undefined>
+
+interface Metric {
+  name: string
+  help: string
+  type: "counter" | "histogram"
+  render: () => string[]
+}
+
+const registry: Metric[] = []
+
+// Guilds that have their own label value, in the order they were first seen
+const knownGuilds = new Set<string>()
+
+function getMaxGuilds() {
+  const value = Number(process.env.METRICS_MAX_GUILDS)
+  return Number.isInteger(value) && value >= 0 ? value : DEFAULT_MAX_GUILDS
+}
+
+/**
+ * Caps the guild label at METRICS_MAX_GUILDS (default 100) distinct values so a bot
+ * in many servers can't blow up the scrape; later guilds share the "other" series.
+ */
+function guildLabel(guild: string | null | undefined) {
+  if (!guild) return "unknown"
+  if (knownGuilds.has(guild)) return guild
+  if (knownGuilds.size >= getMaxGuilds()) return OVERFLOW_GUILD
+  knownGuilds.add(guild)
+  return guild
+}
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+function resolveLabels({ guild, ...labels }: LabelInput): Labels {
+  const resolved: Labels = { guild: guildLabel(guild) }
+  for (const [key, value] of Object.entries(labels)) {
+    resolved[key] = value ?? ""
+  }
+  return resolved
+}
+
+function seriesKey(labels: Labels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+function createCounter(name: string, help: string) {
+  const series = new Map<string, { labels: Labels; value: number }>()
+
+  registry.push({
+    name,
+    help,
+    type: "counter",
+    render: () =>
+      Array.from(series.values()).map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  })
+
+  return {
+    inc(labels: LabelInput, amount = 1) {
+      const resolved = resolveLabels(labels)
+      const key = seriesKey(resolved)
+      const entry = series.get(key) ?? { labels: resolved, value: 0 }
+      entry.value += amount
+      series.set(key, entry)
+    },
+  }
+}
+
+function createHistogram(name: string, help: string, buckets: number[]) {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  registry.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      Array.from(series.values()).flatMap(({ labels, counts, sum, count }) => [
+        ...buckets.map((bound, i) => `${name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`),
+        `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+        `${name}_sum${formatLabels(labels)} ${sum}`,
+        `${name}_count${formatLabels(labels)} ${count}`,
+      ]),
+  })
+
+  return {
+    observe(labels: LabelInput, value: number) {
+      const resolved = resolveLabels(labels)
+      const key = seriesKey(resolved)
+      const entry = series.get(key) ?? { labels: resolved, counts: buckets.map(() => 0), sum: 0, count: 0 }
+      // Buckets are cumulative: a value lands in every bucket whose bound it fits under
+      buckets.forEach((bound, i) => {
+        if (value <= bound) entry.counts[i]++
+      })
+      entry.sum += value
+      entry.count++
+      series.set(key, entry)
+    },
+  }
+}
+
+export const verificationAttempts = createCounter(
+  "verification_attempts_total",
+  "Verification attempts by outcome (verified, failed, step_up, rate_limited).",
+)
+
+export const verificationErrorCodes = createCounter(
+  "verification_error_codes_total",
+  "Failed verification attempts by API error code (LINK_EXPIRED, RATE_LIMITED, IP_DENIED...).",
+)
+
+export const captchaErrorCodes = createCounter(
+  "verification_captcha_error_codes_total",
+  "Error codes reported by the captcha provider on verification attempts.",
+)
+
+export const captchaMismatches = createCounter(
+  "verification_captcha_mismatches_total",
+  "Captcha tokens rejected by a guild's hostname, action or token age check, by check.",
+)
+
+export const recaptchaScores = createHistogram(
+  "verification_recaptcha_score",
+  "Scores returned by score-based captcha providers (reCAPTCHA v3).",
+  SCORE_BUCKETS,
+)
+
+export const siteverifyDuration = createHistogram(
+  "verification_siteverify_duration_seconds",
+  "Latency of captcha siteverify calls.",
+  LATENCY_BUCKETS,
+)
+
+export const downstreamDuration = createHistogram(
+  "verification_downstream_duration_seconds",
+  "Latency of each downstream delivery attempt, by result.",
+  LATENCY_BUCKETS,
+)
+
+export const webhookFailures = createCounter(
+  "verification_webhook_failures_total",
+  "Discord webhook notifications that could not be sent.",
+)
+
+// Seconds elapsed since a Date.now() timestamp, for the latency histograms
+export function secondsSince(startedAt: number) {
+  return (Date.now() - startedAt) / 1000
+}
+
+// Everything registered, in the Prometheus text exposition format (version 0.0.4)
+export function renderMetrics() {
+  const lines = registry.flatMap((metric) => [
+    `# HELP ${metric.name} ${metric.help}`,
+    `# TYPE ${metric.name} ${metric.type}`,
+    ...metric.render(),
+  ])
+  return `${lines.join("\n")}\n`
+}
@@ -0,0 +1,115 @@
+import { readJsonFile, updateJsonFile } from "@/lib/json-store"
+import type { RetentionCutoffs } from "@/lib/retention"
+
+const OUTBOX_FILE = "outbox.json"
+
+export type OutboxStatus = "failed" | "delivered"
+
+// A downstream delivery that exhausted its retries, kept for inspection and replay
+export interface OutboxEntry {
+  // Same as the X-Delivery-Id the receiver saw, so replays can be deduplicated
+  id: string
+  endpoint: string
+  event: string
+  payload: Record<string, unknown>
+  status: OutboxStatus
+  attempts: number
+  lastError: string
+  createdAt: string
+  updatedAt: string
+}
+
+export async function listOutboxEntries(status?: OutboxStatus) {
+  const entries = await readJsonFile<OutboxEntry[]>(OUTBOX_FILE, [])
+  return status ? entries.filter((entry) => entry.status === status) : entries
+}
+
+export async function getOutboxEntry(id: string) {
+  const entries = await readJsonFile<OutboxEntry[]>(OUTBOX_FILE, [])
+  return entries.find((entry) => entry.id === id) || null
+}
+
+// Parks a failed delivery. Failing again under the same ID replaces the earlier entry instead of adding another
+export function addOutboxEntry(
+  entry: Pick<OutboxEntry, "id" | "endpoint" | "event" | "payload" | "attempts" | "lastError">,
+) {
+  const now = new Date().toISOString()
+  return updateJsonFile<OutboxEntry[], OutboxEntry>(OUTBOX_FILE, [], (entries) => {
+    const previous = entries.find((existing) => existing.id === entry.id)
+    const stored: OutboxEntry = {
+      ...entry,
+      attempts: (previous?.attempts ?? 0) + entry.attempts,
+      status: "failed",
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+    }
+    return { value: [...entries.filter((existing) => existing.id !== entry.id), stored], result: stored }
+  })
+}
+
+export function updateOutboxEntry(id: string, update: Partial<Pick<OutboxEntry, "status" | "attempts" | "lastError">>) {
+  return updateJsonFile<OutboxEntry[], OutboxEntry | null>(OUTBOX_FILE, [], (entries) => {
+    const index = entries.findIndex((entry) => entry.id === id)
+    if (index === -1) {
+      return { value: entries, result: null }
+    }
+    const next = { ...entries[index], ...update, updatedAt: new Date().toISOString() }
+    return { value: entries.map((entry, i) => (i === index ? next : entry)), result: next }
+  })
+}
+
+export function removeOutboxEntry(id: string) {
+  return updateJsonFile<OutboxEntry[], boolean>(OUTBOX_FILE, [], (entries) => {
+    const remaining = entries.filter((entry) => entry.id !== id)
+    return { value: remaining, result: remaining.length !== entries.length }
+  })
+}
+
+// Strips the client IP and/or user agent a verification payload carries
+function redactPayload(payload: Record<string, unknown>, { ip, userAgent }: { ip: boolean; userAgent: boolean }) {
+  const userData = { ...(payload.userData as Record<string, unknown> | undefined) }
+  if (ip) delete userData.ip
+  if (userAgent) delete userData.userAgent
+  const next: Record<string, unknown> = { ...payload, ...(payload.userData ? { userData } : {}) }
+  if (ip) delete next.user_ip
+  return next
+}
+
+/**
+ * Applies retention: entries past `deleteBefore` are removed, delivered ones already once
+ * their IP expires. Failed entries stay replayable but lose the expired fields.
+ */
+export function purgeOutboxEntries(cutoffs: RetentionCutoffs) {
+  const time = (date: Date | null) => date?.getTime() ?? -Infinity
+  return updateJsonFile<OutboxEntry[], number>(OUTBOX_FILE, [], (entries) => {
+    const kept = entries
+      .filter((entry) => {
+        const createdAt = Date.parse(entry.createdAt)
+        if (createdAt < time(cutoffs.deleteBefore)) return false
+        return !(entry.status === "delivered" && createdAt < time(cutoffs.ipBefore))
+      })
+      .map((entry) => {
+        const createdAt = Date.parse(entry.createdAt)
+        const ip = createdAt < time(cutoffs.ipBefore)
+        const userAgent = createdAt < time(cutoffs.userAgentBefore)
+        return ip || userAgent ? { ...entry, payload: redactPayload(entry.payload, { ip, userAgent }) } : entry
+      })
+    return { value: kept, result: entries.length - kept.length }
+  })
+}
+
+// Removes deliveries about a user and the user from other deliveries' linked accounts, optionally in one guild only
+export function deleteUserOutboxEntries(user: string, guild?: string) {
+  return updateJsonFile<OutboxEntry[], number>(OUTBOX_FILE, [], (entries) => {
+    const inScope = (entry: OutboxEntry) => guild === undefined || entry.payload.guild === guild
+    const kept = entries
+      .filter((entry) => entry.payload.id !== user || !inScope(entry))
+      .map((entry) => {
+        const linked = entry.payload.linked_accounts
+        if (!inScope(entry) || !Array.isArray(linked) || !linked.includes(user)) return entry
+        const remaining = linked.filter((account) => account !== user)
+        return { ...entry, payload: { ...entry.payload, linked_accounts: remaining } }
+      })
+    return { value: kept, result: entries.length - kept.length }
+  })
+}
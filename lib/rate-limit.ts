@@ -0,0 +1,84 @@
+import { createHash } from "crypto"
+import { getKeyValueStore } from "@/lib/kv"
+import { logger } from "@/lib/logger"
+
+export type RateLimitScope = "ip" | "user" | "guild" | "admin"
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+export type RateLimitResult = { limited: false } | { limited: true; scope: RateLimitScope; retryAfter: number }
+
+// Defaults, overridable as "<requests>/<seconds>" in RATE_LIMIT_IP, RATE_LIMIT_USER, RATE_LIMIT_GUILD
+// and RATE_LIMIT_ADMIN (admin key sign-ins per client IP)
+const defaultRules: Record<RateLimitScope, RateLimitRule> = {
+  ip: { limit: 10, windowMs: 60_000 },
+  user: { limit: 5, windowMs: 5 * 60_000 },
+  guild: { limit: 120, windowMs: 60_000 },
+  admin: { limit: 10, windowMs: 15 * 60_000 },
+}
+
+const envNames: Record<RateLimitScope, string> = {
+  ip: "RATE_LIMIT_IP",
+  user: "RATE_LIMIT_USER",
+  guild: "RATE_LIMIT_GUILD",
+  admin: "RATE_LIMIT_ADMIN",
+}
+
+export function getRateLimitRule(scope: RateLimitScope): RateLimitRule | null {
+  const raw = process.env[envNames[scope]]
+  if (!raw) {
+    return defaultRules[scope]
+  }
+  if (raw === "off") {
+    return null
+  }
+
+  const match = raw.match(/^(\d+)\/(\d+)$/)
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    logger.warn("Invalid rate limit setting, using default", { setting: envNames[scope], value: raw })
+    return defaultRules[scope]
+  }
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 }
+}
+
+/**
+ * Records a request against each subject's sliding window and reports the first
+ * one that is full. Refused requests are not recorded in any window, so a client that
+ * waits out Retry-After gets through. Subjects without a value are skipped.
+ */
+export async function checkRateLimits(subjects: Partial<Record<RateLimitScope, string | null>>): Promise<RateLimitResult> {
+  const store = getKeyValueStore()
+  const now = Date.now()
+  const recorded: { key: string; member: string }[] = []
+
+  for (const scope of Object.keys(subjects) as RateLimitScope[]) {
+    const subject = subjects[scope]
+    const rule = getRateLimitRule(scope)
+    if (!subject || subject === "unknown" || !rule) continue
+
+    const key = `ratelimit:${scope}:${subject}`
+    const hit = await store.recordHit(key, rule.limit, rule.windowMs, now)
+    if (!hit.allowed) {
+      // Give back what the earlier scopes counted for a request that won't run
+      await Promise.all(recorded.map((entry) => store.removeHit(entry.key, entry.member)))
+      return { limited: true, scope, retryAfter: Math.max(1, Math.ceil((hit.availableAt - now) / 1000)) }
+    }
+    recorded.push({ key, member: hit.member })
+  }
+
+  return { limited: false }
+}
+
+const CAPTCHA_REPLAY_TTL_MS = 10 * 60 * 1000
+
+/**
+ * Marks a captcha token as consumed. Returns false when it was seen before, so replays
+ * are refused locally instead of waiting for the provider's timeout-or-duplicate.
+ */
+export function consumeCaptchaToken(token: string) {
+  const digest = createHash("sha256").update(token).digest("hex")
+  return getKeyValueStore().setIfAbsent(`captcha:used:${digest}`, "1", CAPTCHA_REPLAY_TTL_MS)
+}
@@ -0,0 +1,201 @@
+import { isCaptchaProviderName } from "@/lib/captcha/server"
+import { captchaProviderNames } from "@/lib/captcha/types"
+import { getDownstreamEndpoints } from "@/lib/delivery"
+import { isDiscordOAuthConfigured } from "@/lib/discord-oauth"
+import { defaultGuildPolicy, type GuildPolicy, listGuildPolicies } from "@/lib/guild-policy"
+import { getKeyValueStore } from "@/lib/kv"
+
+const PROBE_TIMEOUT_MS = 3_000
+
+// Google issues 40-character keys that start with "6L"
+const RECAPTCHA_KEY = /^6L[A-Za-z0-9_-]{38}$/
+const DISCORD_WEBHOOK = /^https:\/\/(?:\w+\.)?discord(?:app)?\.com\/api\/webhooks\/\d+\/[\w-]+$/
+
+// "warn" is reported but does not make the service unready
+export type CheckStatus = "pass" | "warn" | "fail"
+
+export interface ReadinessCheck {
+  name: string
+  status: CheckStatus
+  message?: string
+  durationMs?: number
+}
+
+export interface ReadinessReport {
+  ready: boolean
+  checks: ReadinessCheck[]
+}
+
+function pass(name: string): ReadinessCheck {
+  return { name, status: "pass" }
+}
+
+function warn(name: string, message: string): ReadinessCheck {
+  return { name, status: "warn", message }
+}
+
+function fail(name: string, message: string): ReadinessCheck {
+  return { name, status: "fail", message }
+}
+
+function missing(names: string[]) {
+  return names.filter((name) => !process.env[name]?.trim())
+}
+
+function checkRequired(name: string, env: string[]) {
+  const absent = missing(env)
+  return absent.length > 0 ? fail(name, `${absent.join(", ")} not set`) : pass(name)
+}
+
+function checkRecaptchaKeys(name: string, siteKeyEnv: string, secretEnv: string) {
+  const absent = missing([siteKeyEnv, secretEnv])
+  if (absent.length > 0) return fail(name, `${absent.join(", ")} not set`)
+  const malformed = [siteKeyEnv, secretEnv].filter((env) => !RECAPTCHA_KEY.test(process.env[env]?.trim() || ""))
+  return malformed.length > 0 ? fail(name, `${malformed.join(", ")} is not a valid reCAPTCHA key`) : pass(name)
+}
+
+// Environment each provider reads its keys from
+const providerEnv = {
+  "recaptcha-v3": ["RECAPTCHA_SITE_KEY", "RECAPTCHA_SECRET_KEY"],
+  hcaptcha: ["HCAPTCHA_SITE_KEY", "HCAPTCHA_SECRET_KEY"],
+  turnstile: ["TURNSTILE_SITE_KEY", "TURNSTILE_SECRET_KEY"],
+} as const
+
+function checkCaptchaProviders(policies: GuildPolicy[]) {
+  const checks: ReadinessCheck[] = []
+  const configured = process.env.CAPTCHA_PROVIDER
+  if (configured && !isCaptchaProviderName(configured)) {
+    checks.push(fail("captcha_provider", `CAPTCHA_PROVIDER must be one of ${captchaProviderNames.join(", ")}`))
+  }
+  const defaultProvider = isCaptchaProviderName(configured) ? configured : "recaptcha-v3"
+
+  // Only providers some guild actually verifies with need keys
+  const inUse = new Set(policies.map((policy) => policy.provider || defaultProvider))
+  for (const name of inUse) {
+    checks.push(
+      name === "recaptcha-v3"
+        ? checkRecaptchaKeys(`captcha:${name}`, "RECAPTCHA_SITE_KEY", "RECAPTCHA_SECRET_KEY")
+        : checkRequired(`captcha:${name}`, [...providerEnv[name]]),
+    )
+  }
+
+  if (policies.some((policy) => policy.stepUpThreshold !== null)) {
+    const stepUp = checkRecaptchaKeys("captcha:step-up", "RECAPTCHA_V2_SITE_KEY", "RECAPTCHA_V2_SECRET_KEY")
+    // Without v2 keys borderline scores are rejected instead of challenged, so this only warns
+    checks.push(stepUp.status === "fail" ? warn(stepUp.name, stepUp.message || "") : stepUp)
+  }
+  return checks
+}
+
+// Endpoints are reported by host only, so credentials in a URL never end up in the report
+function endpointHost(endpoint: string) {
+  try {
+    const url = new URL(endpoint)
+    return ["http:", "https:"].includes(url.protocol) ? url.host : null
+  } catch {
+    return null
+  }
+}
+
+function checkDelivery(policies: GuildPolicy[]) {
+  const checks: ReadinessCheck[] = []
+
+  if (policies.some((policy) => policy.delivery === "downstream")) {
+    const invalid = getDownstreamEndpoints().filter((endpoint) => endpointHost(endpoint) === null)
+    if (invalid.length > 0) {
+      checks.push(fail("downstream_urls", `DOWNSTREAM_URLS has ${invalid.length} invalid URL(s)`))
+    } else if (!process.env.DOWNSTREAM_URLS) {
+      checks.push(warn("downstream_urls", "DOWNSTREAM_URLS not set, using the legacy endpoint"))
+    } else {
+      checks.push(pass("downstream_urls"))
+    }
+  }
+  if (policies.some((policy) => policy.delivery === "discord")) {
+    checks.push(checkRequired("discord_bot_token", ["DISCORD_BOT_TOKEN"]))
+  }
+  if (policies.some((policy) => policy.checks.oauth)) {
+    checks.push(
+      isDiscordOAuthConfigured()
+        ? pass("discord_oauth")
+        : fail("discord_oauth", "DISCORD_CLIENT_ID and DISCORD_CLIENT_SECRET must be set for Discord sign-in"),
+    )
+  }
+
+  const webhook = process.env.DISCORD_WEBHOOK_URL
+  if (webhook) {
+    checks.push(
+      DISCORD_WEBHOOK.test(webhook)
+        ? pass("discord_webhook_url")
+        : fail("discord_webhook_url", "DISCORD_WEBHOOK_URL is not a Discord webhook URL"),
+    )
+  }
+  return checks
+}
+
+function checkPrivacy() {
+  if (process.env.IP_PRIVACY_MODE !== "hash") return pass("ip_privacy")
+  return process.env.IP_HASH_SALT ? pass("ip_privacy") : fail("ip_privacy", "IP_PRIVACY_MODE=hash needs IP_HASH_SALT")
+}
+
+async function timed(name: string, probe: () => Promise<ReadinessCheck>): Promise<ReadinessCheck> {
+  const startedAt = Date.now()
+  const check = await probe().catch((error) =>
+    fail(name, error instanceof Error ? error.message : "Probe failed"),
+  )
+  return { ...check, durationMs: Date.now() - startedAt }
+}
+
+async function probeKeyValueStore() {
+  await getKeyValueStore().get("readiness-probe")
+  return pass("kv_store")
+}
+
+// Any HTTP answer means the bot server is up; only connection failures and timeouts count
+async function probeDownstream(name: string, endpoint: string) {
+  const response = await fetch(endpoint, { method: "HEAD", signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) })
+  return response.status >= 500 ? fail(name, `Responded with ${response.status}`) : pass(name)
+}
+
+// A GET on a webhook URL returns the webhook without posting anything
+async function probeWebhook(url: string) {
+  const response = await fetch(url, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) })
+  return response.ok
+    ? pass("discord_webhook")
+    : fail("discord_webhook", response.status === 404 ? "Webhook was deleted" : `Responded with ${response.status}`)
+}
+
+/**
+ * Checks that the configuration verification depends on is present and well-formed,
+ * and with `probe` also that the key-value store, downstream server(s) and webhook answer.
+ */
+export async function checkReadiness({ probe = false } = {}): Promise<ReadinessReport> {
+  const policies: GuildPolicy[] = [defaultGuildPolicy, ...(await listGuildPolicies())]
+
+  const checks: ReadinessCheck[] = [
+    checkRequired("discord_api_key", ["DISCORD_API_KEY"]),
+    checkRequired("verification_link_secret", ["VERIFICATION_LINK_SECRET"]),
+    ...checkCaptchaProviders(policies),
+    ...checkDelivery(policies),
+    checkPrivacy(),
+    process.env.ADMIN_API_KEY ? pass("admin_api_key") : warn("admin_api_key", "ADMIN_API_KEY not set, admin API disabled"),
+  ]
+
+  if (probe) {
+    const probes = [timed("kv_store", probeKeyValueStore)]
+    if (policies.some((policy) => policy.delivery === "downstream")) {
+      for (const endpoint of getDownstreamEndpoints()) {
+        const host = endpointHost(endpoint)
+        if (!host) continue
+        const name = `downstream:${host}`
+        probes.push(timed(name, () => probeDownstream(name, endpoint)))
+      }
+    }
+    const webhook = process.env.DISCORD_WEBHOOK_URL
+    if (webhook && DISCORD_WEBHOOK.test(webhook)) {
+      probes.push(timed("discord_webhook", () => probeWebhook(webhook)))
+    }
+    checks.push(...(await Promise.all(probes)))
+  }
+
+  return { ready: checks.every((check) => check.status !== "fail"), checks }
+}
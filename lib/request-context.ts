@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto"
+import { type NextRequest, NextResponse } from "next/server"
+import { logger, runWithRequestContext } from "@/lib/logger"
+
+export const REQUEST_ID_HEADER = "X-Request-Id"
+
+// IDs from an upstream proxy are reused so its logs line up with ours
+const INCOMING_ID = /^[A-Za-z0-9._:-]{8,128}$/
+
+/**
+ * Wraps a route handler so every log line it (and the lib code it calls) writes
+ * carries one correlation ID, which is also returned in the X-Request-Id header.
+ */
+export function withRequestContext<Args extends [NextRequest, ...unknown[]]>(
+  handler: (...args: Args) => Promise<Response>,
+) {
+  return (...args: Args) => {
+    const [request] = args
+    const incoming = request.headers.get(REQUEST_ID_HEADER)
+    const requestId = incoming && INCOMING_ID.test(incoming) ? incoming : randomUUID()
+
+    return runWithRequestContext({ requestId }, async () => {
+      const startedAt = Date.now()
+      let response: Response
+      try {
+        response = await handler(...args)
+      } catch (error) {
+        logger.error("Unhandled route error", { error })
+        response = NextResponse.json(
+          { success: false, code: "INTERNAL_ERROR", error: "Internal server error" },
+          { status: 500 },
+        )
+      }
+
+      response.headers.set(REQUEST_ID_HEADER, requestId)
+      logger.info("Request completed", {
+        method: request.method,
+        path: request.nextUrl.pathname,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      })
+      return response
+    })
+  }
+}
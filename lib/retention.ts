@@ -0,0 +1,114 @@
+import { deleteUserAltSightings, isIpFingerprint, purgeAltSightings } from "@/lib/alt-detection"
+import { deleteUserVerifications, purgeVerifications } from "@/lib/audit-log"
+import { deliverEvent } from "@/lib/delivery"
+import { defaultGuildPolicy, listGuildPolicies } from "@/lib/guild-policy"
+import { logger } from "@/lib/logger"
+import { deleteUserOutboxEntries, purgeOutboxEntries } from "@/lib/outbox"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_PURGE_INTERVAL_MS = 60 * 60 * 1000
+
+// Records (or fields) older than a cutoff are purged; null keeps them forever
+export interface RetentionCutoffs {
+  deleteBefore: Date | null
+  ipBefore: Date | null
+  userAgentBefore: Date | null
+}
+
+// Retention in days from the environment; 0 keeps data forever
+function getRetentionDays(name: string, fallback: number) {
+  const value = process.env[name]
+  if (value === undefined || value === "") return fallback
+  const days = Number(value)
+  return Number.isFinite(days) && days >= 0 ? days : fallback
+}
+
+/**
+ * RETENTION_IP_DAYS (default 30) and RETENTION_USER_AGENT_DAYS (default 30) blank those
+ * fields; RETENTION_AUDIT_DAYS (default 365) deletes whole records.
+ */
+export function getRetentionCutoffs(now = Date.now()): RetentionCutoffs {
+  const cutoff = (days: number) => (days > 0 ? new Date(now - days * DAY_MS) : null)
+  return {
+    deleteBefore: cutoff(getRetentionDays("RETENTION_AUDIT_DAYS", 365)),
+    ipBefore: cutoff(getRetentionDays("RETENTION_IP_DAYS", 30)),
+    userAgentBefore: cutoff(getRetentionDays("RETENTION_USER_AGENT_DAYS", 30)),
+  }
+}
+
+// The strictest of the cutoffs: whichever keeps the least
+function latest(...cutoffs: (Date | null)[]) {
+  return cutoffs.reduce<Date | null>((result, cutoff) => {
+    return !result || (cutoff && cutoff > result) ? cutoff : result
+  }, null)
+}
+
+/**
+ * Purges everything past its retention window: audit records and their IPs and user
+ * agents, parked deliveries, and alt-detection sightings outside each guild's window.
+ */
+export async function purgeExpiredData(now = Date.now()) {
+  const cutoffs = getRetentionCutoffs(now)
+
+  // Sightings live as long as the guild links accounts for, but never past audit retention,
+  // and IP fingerprints never past IP retention
+  const windows = new Map((await listGuildPolicies()).map((policy) => [policy.guild, policy.altDetection?.windowDays]))
+  const sightingCutoff = (guild: string, fingerprint: string) => {
+    const days = windows.get(guild) ?? defaultGuildPolicy.altDetection.windowDays
+    const windowCutoff = days > 0 ? new Date(now - days * DAY_MS) : null
+    return latest(windowCutoff, cutoffs.deleteBefore, isIpFingerprint(fingerprint) ? cutoffs.ipBefore : null)
+  }
+
+  const [verifications, outboxEntries, altSightings] = await Promise.all([
+    purgeVerifications(cutoffs),
+    purgeOutboxEntries(cutoffs),
+    purgeAltSightings(sightingCutoff),
+  ])
+  return { verifications, outboxEntries, altSightings }
+}
+
+let purgeTimer: ReturnType<typeof setInterval> | null = null
+
+// Runs the purge now and then every RETENTION_PURGE_INTERVAL_MS (default hourly)
+export function startRetentionJob() {
+  if (purgeTimer) return
+
+  const run = () =>
+    purgeExpiredData()
+      .then((result) => logger.info("Retention purge finished", { purged: result }))
+      .catch((error) => logger.error("Retention purge failed", { error }))
+
+  const interval = Number(process.env.RETENTION_PURGE_INTERVAL_MS) || DEFAULT_PURGE_INTERVAL_MS
+  purgeTimer = setInterval(run, interval)
+  // Never keep the process alive just for the purge
+  purgeTimer.unref?.()
+  run()
+}
+
+/**
+ * Erases what we hold about a Discord user (optionally only for one guild) and tells
+ * the downstream bot server(s) to do the same with the `userData` they received.
+ */
+export async function deleteUserData(user: string, guild?: string) {
+  const [verifications, outboxEntries, altSightings] = await Promise.all([
+    deleteUserVerifications(user, guild),
+    deleteUserOutboxEntries(user, guild),
+    deleteUserAltSightings(user, guild),
+  ])
+
+  const notice = await deliverEvent("user.deleted", {
+    id: user,
+    guild: guild ?? null,
+    requestedAt: new Date().toISOString(),
+  })
+
+  return {
+    deleted: { verifications, outboxEntries, altSightings },
+    downstream: notice.results.map((result) => ({
+      endpoint: result.endpoint,
+      ok: result.ok,
+      error: result.error?.message,
+      outboxId: result.outboxId,
+    })),
+  }
+}
@@ -0,0 +1,33 @@
+import { createHmac, timingSafeEqual } from "crypto"
+
+export type SignedPayloadResult<T> = { ok: true; data: T } | { ok: false; reason: "malformed" | "bad_signature" }
+
+function sign(payload: string, secret: string) {
+  return createHmac("sha256", secret).update(payload).digest("base64url")
+}
+
+// Encodes data as `<base64url JSON>.<base64url HMAC-SHA256>`
+export function signPayload(data: unknown, secret: string) {
+  const payload = Buffer.from(JSON.stringify(data)).toString("base64url")
+  return `${payload}.${sign(payload, secret)}`
+}
+
+// Checks the signature in constant time before decoding anything
+export function readSignedPayload<T>(token: string, secret: string): SignedPayloadResult<T> {
+  const [payload, signature, ...rest] = token.split(".")
+  if (!payload || !signature || rest.length > 0) {
+    return { ok: false, reason: "malformed" }
+  }
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: "bad_signature" }
+  }
+
+  try {
+    return { ok: true, data: JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) }
+  } catch {
+    return { ok: false, reason: "malformed" }
+  }
+}
@@ -0,0 +1,119 @@
+import { randomUUID } from "crypto"
+import { getKeyValueStore } from "@/lib/kv"
+import { readSignedPayload, signPayload } from "@/lib/signing"
+import type { VerifyErrorCode } from "@/lib/verify-api"
+
+// Fields the bot puts into a verification link
+export interface VerificationLinkClaims {
+  id: string
+  username?: string | null
+  guild: string
+  guild_name?: string | null
+  guild_icon?: string | null
+}
+
+// Claims plus the metadata added when the link is signed
+export interface VerificationLink extends VerificationLinkClaims {
+  jti: string
+  iat: number
+  exp: number
+}
+
+export type VerificationLinkError = "missing" | "malformed" | "bad_signature" | "expired" | "used"
+
+export type VerificationLinkResult =
+  | { valid: true; link: VerificationLink }
+  | { valid: false; reason: VerificationLinkError }
+
+export const verificationLinkErrorMessages: Record<VerificationLinkError, string> = {
+  missing: "No verification link provided",
+  malformed: "Invalid verification link",
+  bad_signature: "Invalid verification link",
+  expired: "This verification link has expired - please request a new one",
+  used: "This verification link has already been used",
+}
+
+export const verificationLinkErrorCodes: Record<VerificationLinkError, VerifyErrorCode> = {
+  missing: "INVALID_LINK",
+  malformed: "INVALID_LINK",
+  bad_signature: "INVALID_LINK",
+  expired: "LINK_EXPIRED",
+  used: "LINK_USED",
+}
+
+const DEFAULT_TTL_SECONDS = 15 * 60
+
+function getSecret() {
+  const secret = process.env.VERIFICATION_LINK_SECRET
+  if (!secret) {
+    throw new Error("VERIFICATION_LINK_SECRET not set in environment")
+  }
+  return secret
+}
+
+// Links that have been (or are being) redeemed; kept until the link would have expired anyway
+function usedLinkKey(jti: string) {
+  return `link:used:${jti}`
+}
+
+export function getVerificationLinkTtl() {
+  const ttl = Number(process.env.VERIFICATION_LINK_TTL)
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS
+}
+
+export function createVerificationLinkToken(claims: VerificationLinkClaims, ttlSeconds = getVerificationLinkTtl()) {
+  const iat = Math.floor(Date.now() / 1000)
+  const link: VerificationLink = {
+    id: claims.id,
+    username: claims.username ?? null,
+    guild: claims.guild,
+    guild_name: claims.guild_name ?? null,
+    guild_icon: claims.guild_icon ?? null,
+    jti: randomUUID(),
+    iat,
+    exp: iat + ttlSeconds,
+  }
+
+  return { token: signPayload(link, getSecret()), link }
+}
+
+export async function verifyVerificationLinkToken(token: string | null | undefined): Promise<VerificationLinkResult> {
+  if (!token || typeof token !== "string") {
+    return { valid: false, reason: "missing" }
+  }
+
+  const decoded = readSignedPayload<VerificationLink>(token, getSecret())
+  if (!decoded.ok) {
+    return { valid: false, reason: decoded.reason }
+  }
+
+  const link = decoded.data
+  if (!link || typeof link.id !== "string" || typeof link.guild !== "string" || typeof link.jti !== "string") {
+    return { valid: false, reason: "malformed" }
+  }
+
+  const now = Date.now()
+  if (typeof link.exp !== "number" || link.exp * 1000 <= now) {
+    return { valid: false, reason: "expired" }
+  }
+
+  if (await getKeyValueStore().get(usedLinkKey(link.jti))) {
+    return { valid: false, reason: "used" }
+  }
+
+  return { valid: true, link }
+}
+
+/**
+ * Reserves a link for redemption. Returns false when another request already holds it,
+ * so two verifications can never be credited from the same link.
+ */
+export function claimVerificationLink(link: VerificationLink) {
+  const ttlMs = Math.max(link.exp * 1000 - Date.now(), 1000)
+  return getKeyValueStore().setIfAbsent(usedLinkKey(link.jti), "1", ttlMs)
+}
+
+// Gives the link back after a failed attempt so the user can retry with it
+export function releaseVerificationLink(link: VerificationLink) {
+  return getKeyValueStore().delete(usedLinkKey(link.jti))
+}
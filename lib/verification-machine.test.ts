@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest"
+import { defaultBranding } from "@/lib/branding"
+import {
+  initialVerificationMachine,
+  type StepUpChallenge,
+  SUCCESS_COUNTDOWN_SECONDS,
+  type VerificationEvent,
+  type VerificationMachine,
+  verificationReducer,
+} from "@/lib/verification-machine"
+import type { VerificationLinkInfo } from "@/lib/verify-api"
+
+const link: VerificationLinkInfo = {
+  valid: true,
+  locale: "de",
+  id: "123456789012345678",
+  username: "someone",
+  guild: "876543210987654321",
+  guild_name: "Test Guild",
+  guild_icon: null,
+  expiresAt: 1_900_000_000,
+  requiresSignIn: false,
+  discordUser: null,
+  branding: defaultBranding,
+}
+
+const stepUp: StepUpChallenge = {
+  provider: "recaptcha-v2",
+  siteKey: "site-key",
+  nonce: "step-up-nonce",
+  expiresAt: 1_900_000_000,
+}
+
+function run(...events: VerificationEvent[]) {
+  return events.reduce(verificationReducer, initialVerificationMachine)
+}
+
+function machineIn(state: VerificationMachine["state"], overrides: Partial<VerificationMachine> = {}) {
+  return { ...initialVerificationMachine, link, locale: link.locale, state, ...overrides }
+}
+
+describe("verificationReducer", () => {
+  describe("LINK_CHECKED", () => {
+    it("keeps loading when the guild does not require a sign-in", () => {
+      const machine = run({ type: "LINK_CHECKED", link, authError: null })
+      expect(machine).toMatchObject({ state: "loading", link, locale: "de", error: null })
+    })
+
+    it("asks for a sign-in, carrying the callback's auth error", () => {
+      const machine = run({ type: "LINK_CHECKED", link: { ...link, requiresSignIn: true }, authError: "denied" })
+      expect(machine.state).toBe("signin")
+      expect(machine.error).toEqual({ kind: "auth", reason: "denied" })
+    })
+
+    it("ignores an auth error when no sign-in is needed", () => {
+      const machine = run({ type: "LINK_CHECKED", link, authError: "denied" })
+      expect(machine.error).toBeNull()
+    })
+  })
+
+  it("shows the server's failure for a rejected link", () => {
+    const machine = run({
+      type: "LINK_REJECTED",
+      failure: { code: "LINK_EXPIRED", error: "Verification link expired" },
+      locale: "ja",
+    })
+    expect(machine).toMatchObject({
+      state: "error",
+      locale: "ja",
+      error: { kind: "server", code: "LINK_EXPIRED", message: "Verification link expired", reference: null },
+    })
+  })
+
+  describe("SERVER_RESULT", () => {
+    it("moves to success and restarts the countdown", () => {
+      const machine = verificationReducer(machineIn("webhook", { countdown: 0 }), {
+        type: "SERVER_RESULT",
+        result: { success: true, stepUp: false, message: "ok", user_ip: "203.0.113.7" },
+        reference: "req-1",
+      })
+      expect(machine).toMatchObject({ state: "success", error: null, countdown: SUCCESS_COUNTDOWN_SECONDS })
+    })
+
+    it("shows the step-up challenge the server asked for", () => {
+      const machine = verificationReducer(machineIn("risk"), {
+        type: "SERVER_RESULT",
+        result: { success: false, code: "STEP_UP_REQUIRED", error: "Additional verification required", stepUp },
+        reference: "req-1",
+      })
+      expect(machine).toMatchObject({ state: "challenge", stepUp })
+    })
+
+    it("treats a step-up answer without a challenge as an error", () => {
+      const machine = verificationReducer(machineIn("risk"), {
+        type: "SERVER_RESULT",
+        result: { success: false, code: "STEP_UP_REQUIRED", error: "Additional verification required" },
+        reference: null,
+      })
+      expect(machine.state).toBe("error")
+    })
+
+    it("goes back to the sign-in when the Discord session expired", () => {
+      const machine = verificationReducer(machineIn("token"), {
+        type: "SERVER_RESULT",
+        result: { success: false, code: "SIGN_IN_REQUIRED", error: "Please sign in with Discord to verify" },
+        reference: "req-2",
+      })
+      expect(machine).toMatchObject({
+        state: "signin",
+        error: { kind: "server", code: "SIGN_IN_REQUIRED", reference: "req-2" },
+      })
+    })
+
+    it("shows any other failure with its request reference", () => {
+      const machine = verificationReducer(machineIn("delivery", { stepUp }), {
+        type: "SERVER_RESULT",
+        result: { success: false, code: "DOWNSTREAM_TIMEOUT", error: "Discord server is taking too long" },
+        reference: "req-3",
+      })
+      expect(machine).toMatchObject({
+        state: "error",
+        stepUp: null,
+        error: {
+          kind: "server",
+          code: "DOWNSTREAM_TIMEOUT",
+          message: "Discord server is taking too long",
+          reference: "req-3",
+        },
+      })
+    })
+  })
+
+  it("keeps the challenge while its answer is being checked", () => {
+    const machine = verificationReducer(machineIn("challenge", { stepUp }), { type: "CHALLENGE_SOLVED" })
+    expect(machine).toMatchObject({ state: "token", stepUp })
+  })
+
+  it("starts over on RETRY with a new attempt", () => {
+    const failed = machineIn("error", {
+      error: { kind: "client", key: "network" },
+      stepUp,
+      closeBlocked: true,
+      attempt: 2,
+    })
+    expect(verificationReducer(failed, { type: "RETRY" })).toMatchObject({
+      state: "loading",
+      error: null,
+      stepUp: null,
+      closeBlocked: false,
+      attempt: 3,
+    })
+  })
+
+  it("reports a TIMEOUT as a client error", () => {
+    const machine = verificationReducer(machineIn("delivery"), { type: "TIMEOUT" })
+    expect(machine).toMatchObject({ state: "error", error: { kind: "client", key: "timeout" } })
+  })
+
+  describe("TICK", () => {
+    it("counts down after a success", () => {
+      const machine = verificationReducer(machineIn("success", { countdown: 3 }), { type: "TICK" })
+      expect(machine.countdown).toBe(2)
+    })
+
+    it("stops at zero", () => {
+      const machine = machineIn("success", { countdown: 0 })
+      expect(verificationReducer(machine, { type: "TICK" })).toBe(machine)
+    })
+
+    it("does nothing outside success", () => {
+      const machine = machineIn("error", { countdown: 3 })
+      expect(verificationReducer(machine, { type: "TICK" })).toBe(machine)
+    })
+  })
+
+  it("remembers that the browser refused to close the tab", () => {
+    const machine = verificationReducer(machineIn("success", { countdown: 0 }), { type: "CLOSE_BLOCKED" })
+    expect(machine.closeBlocked).toBe(true)
+  })
+
+  describe("STAGE_REACHED", () => {
+    it.each(["loading", "token", "risk", "delivery"] as const)("advances from %s", (state) => {
+      const machine = verificationReducer(machineIn(state), { type: "STAGE_REACHED", stage: "webhook" })
+      expect(machine.state).toBe("webhook")
+    })
+
+    it.each(["signin", "challenge", "success", "error"] as const)("is ignored in %s", (state) => {
+      const machine = machineIn(state)
+      expect(verificationReducer(machine, { type: "STAGE_REACHED", stage: "delivery" })).toBe(machine)
+    })
+  })
+})
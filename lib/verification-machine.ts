@@ -0,0 +1,178 @@
+import type { CaptchaClientConfig } from "@/lib/captcha/types"
+import type { Locale, Messages } from "@/lib/i18n/types"
+import {
+  type ApiFailure,
+  type VerificationLinkInfo,
+  type VerifyErrorCode,
+  type VerifyResponse,
+  type VerifyStage,
+  verifyStages,
+} from "@/lib/verify-api"
+
+// The verification page's flow as a pure reducer. useVerification performs the side effects
+// (fetches, captcha scripts, timers) and feeds their outcomes back in as events, so every
+// transition can be exercised without a browser or a captcha provider.
+
+// Between loading and the outcome, the state is whichever stage the server reports it has reached
+export const verificationStates = ["loading", "signin", ...verifyStages, "challenge", "success", "error"] as const
+
+export type VerificationState = (typeof verificationStates)[number]
+
+export type ProgressState = "loading" | VerifyStage
+
+export type ClientErrorKey = keyof Messages["clientErrors"]
+
+// Why the page is showing an error; the page renders it through the message catalogue
+export type VerificationError =
+  | { kind: "server"; code: VerifyErrorCode; message: string; reference: string | null }
+  | { kind: "client"; key: ClientErrorKey }
+  // From the Discord sign-in callback's ?auth_error=
+  | { kind: "auth"; reason: string }
+
+export type StepUpChallenge = NonNullable<ApiFailure["stepUp"]>
+
+export interface VerificationMachine {
+  state: VerificationState
+  // Language the server picked for the link; null until it has answered
+  locale: Locale | null
+  link: VerificationLinkInfo | null
+  // Rendering the page for an admin's branding preview: no captcha, no countdown
+  preview: boolean
+  captcha: CaptchaClientConfig | null
+  error: VerificationError | null
+  // The step-up challenge being shown or answered. Kept until the server rules on the answer,
+  // since the hook cancels the challenge's submission when it changes
+  stepUp: StepUpChallenge | null
+  // Bumped by every retry; the hook restarts the captcha flow when it changes
+  attempt: number
+  // Seconds until the tab closes itself after a success
+  countdown: number
+  // The browser refused window.close(), so the user has to close the tab
+  closeBlocked: boolean
+}
+
+export type VerificationEvent =
+  | { type: "LINK_CHECKED"; link: VerificationLinkInfo; authError: string | null }
+  | { type: "LINK_REJECTED"; failure: Pick<ApiFailure, "code" | "error">; locale: Locale | null }
+  | { type: "PREVIEW_LOADED"; link: VerificationLinkInfo; state: VerificationState }
+  | { type: "CONFIG_LOADED"; captcha: CaptchaClientConfig }
+  | { type: "TOKEN_ISSUED" }
+  | { type: "STAGE_REACHED"; stage: VerifyStage }
+  | { type: "SERVER_RESULT"; result: VerifyResponse; reference: string | null }
+  | { type: "CHALLENGE_SOLVED" }
+  | { type: "CLIENT_ERROR"; key: ClientErrorKey }
+  | { type: "TIMEOUT" }
+  | { type: "RETRY" }
+  | { type: "TICK" }
+  | { type: "CLOSE_BLOCKED" }
+
+export const SUCCESS_COUNTDOWN_SECONDS = 5
+
+export const initialVerificationMachine: VerificationMachine = {
+  state: "loading",
+  locale: null,
+  link: null,
+  preview: false,
+  captcha: null,
+  error: null,
+  stepUp: null,
+  attempt: 1,
+  countdown: SUCCESS_COUNTDOWN_SECONDS,
+  closeBlocked: false,
+}
+
+export function isInProgress(state: VerificationState): state is ProgressState {
+  return state === "loading" || verifyStages.some((stage) => stage === state)
+}
+
+// Still waiting for the link check or captcha settings, before there is anything to show
+export function isBooting(machine: VerificationMachine) {
+  return machine.state === "loading" && !machine.captcha && !machine.preview
+}
+
+function serverError(failure: Pick<ApiFailure, "code" | "error">, reference: string | null): VerificationError {
+  return { kind: "server", code: failure.code, message: failure.error, reference }
+}
+
+export function verificationReducer(machine: VerificationMachine, event: VerificationEvent): VerificationMachine {
+  switch (event.type) {
+    case "LINK_CHECKED":
+      return {
+        ...machine,
+        link: event.link,
+        locale: event.link.locale,
+        state: event.link.requiresSignIn ? "signin" : "loading",
+        error: event.link.requiresSignIn && event.authError ? { kind: "auth", reason: event.authError } : null,
+      }
+
+    case "LINK_REJECTED":
+      return { ...machine, locale: event.locale, state: "error", error: serverError(event.failure, null) }
+
+    case "PREVIEW_LOADED":
+      return { ...machine, link: event.link, locale: event.link.locale, preview: true, state: event.state }
+
+    case "CONFIG_LOADED":
+      return { ...machine, captcha: event.captcha }
+
+    // The token is on its way to the server, which reports its stages from here
+    case "TOKEN_ISSUED":
+      return { ...machine, state: "token", stepUp: null }
+
+    case "CHALLENGE_SOLVED":
+      return { ...machine, state: "token" }
+
+    case "STAGE_REACHED":
+      return isInProgress(machine.state) ? { ...machine, state: event.stage } : machine
+
+    case "SERVER_RESULT": {
+      const { result } = event
+      if (result.success) {
+        return { ...machine, state: "success", error: null, stepUp: null, countdown: SUCCESS_COUNTDOWN_SECONDS }
+      }
+      if (result.code === "STEP_UP_REQUIRED" && result.stepUp) {
+        return { ...machine, state: "challenge", stepUp: result.stepUp }
+      }
+      // The Discord session expired while the user was verifying
+      if (result.code === "SIGN_IN_REQUIRED") {
+        return { ...machine, state: "signin", stepUp: null, error: serverError(result, event.reference) }
+      }
+      return { ...machine, state: "error", stepUp: null, error: serverError(result, event.reference) }
+    }
+
+    case "CLIENT_ERROR":
+      return { ...machine, state: "error", stepUp: null, error: { kind: "client", key: event.key } }
+
+    case "TIMEOUT":
+      return { ...machine, state: "error", stepUp: null, error: { kind: "client", key: "timeout" } }
+
+    case "RETRY":
+      return {
+        ...machine,
+        state: "loading",
+        error: null,
+        stepUp: null,
+        closeBlocked: false,
+        attempt: machine.attempt + 1,
+      }
+
+    case "TICK":
+      return machine.state === "success" && machine.countdown > 0
+        ? { ...machine, countdown: machine.countdown - 1 }
+        : machine
+
+    case "CLOSE_BLOCKED":
+      return { ...machine, closeBlocked: true }
+  }
+}
+
+// The text to show for an error, in the page's language; the server's own message is the fallback
+export function describeVerificationError(t: Messages, error: VerificationError) {
+  switch (error.kind) {
+    case "server":
+      return t.errors[error.code] || error.message
+    case "client":
+      return t.clientErrors[error.key]
+    case "auth":
+      return t.authErrors[error.reason as keyof Messages["authErrors"]] || t.authErrors.failed
+  }
+}
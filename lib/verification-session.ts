@@ -0,0 +1,125 @@
+import { randomBytes, timingSafeEqual } from "crypto"
+import type { CaptchaProviderName } from "@/lib/captcha/types"
+import { getKeyValueStore } from "@/lib/kv"
+import type { VerificationLink } from "@/lib/verification-link"
+import type { VerifyErrorCode } from "@/lib/verify-api"
+
+// Server-side record of a challenge handed to the browser for one verification attempt
+interface VerificationSession {
+  jti: string
+  action: string
+  provider: CaptchaProviderName
+  // Set when the first captcha passed with a borderline score and a challenge is still owed
+  stepUp?: { score: number }
+  exp: number
+}
+
+export type VerificationSessionError = "missing" | "unknown" | "expired" | "mismatch" | "used"
+
+export type VerificationSessionResult =
+  | { valid: true; action: string; provider: CaptchaProviderName; stepUp?: { score: number } }
+  | { valid: false; reason: VerificationSessionError }
+
+export const verificationSessionErrorMessages: Record<VerificationSessionError, string> = {
+  missing: "No verification session provided",
+  unknown: "Verification session not found - please try again",
+  expired: "Verification session expired - please try again",
+  mismatch: "Verification session does not match this link",
+  used: "Verification session already used - please try again",
+}
+
+export const verificationSessionErrorCodes: Record<VerificationSessionError, VerifyErrorCode> = {
+  missing: "SESSION_INVALID",
+  unknown: "SESSION_INVALID",
+  expired: "SESSION_EXPIRED",
+  mismatch: "SESSION_INVALID",
+  used: "SESSION_INVALID",
+}
+
+export const DEFAULT_CAPTCHA_ACTION = "verify_user"
+
+const SESSION_TTL_MS = 5 * 60 * 1000
+
+// Consumed nonces are remembered a while longer so replays get a clear answer
+const USED_SESSION_TTL_MS = 30 * 60 * 1000
+
+const sessionKey = (nonce: string) => `session:${nonce}`
+const usedSessionKey = (nonce: string) => `session:used:${nonce}`
+const attemptsKey = (jti: string) => `attempts:${jti}`
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+async function storeSession(link: VerificationLink, session: Omit<VerificationSession, "jti" | "exp">) {
+  const now = Date.now()
+  const nonce = randomBytes(32).toString("base64url")
+  // Never outlive the link the session belongs to
+  const exp = Math.min(now + SESSION_TTL_MS, link.exp * 1000)
+  const record: VerificationSession = { ...session, jti: link.jti, exp }
+
+  await getKeyValueStore().set(sessionKey(nonce), JSON.stringify(record), Math.max(exp - now, 1000))
+  return { nonce, expiresAt: Math.floor(exp / 1000) }
+}
+
+/**
+ * Issues a short-lived nonce bound to a verification link and the captcha action the
+ * browser must run. The nonce replaces the shared API key the page used to send.
+ */
+export async function createVerificationSession(
+  link: VerificationLink,
+  { action = DEFAULT_CAPTCHA_ACTION, provider }: { action?: string; provider: CaptchaProviderName },
+) {
+  const { nonce, expiresAt } = await storeSession(link, { action, provider })
+  return { nonce, action, provider, expiresAt }
+}
+
+/**
+ * Issues the follow-up nonce for a step-up challenge. It remembers the score the first
+ * token earned, since that token has already been spent at the provider.
+ */
+export function createStepUpSession(
+  link: VerificationLink,
+  { action, provider, score }: { action: string; provider: CaptchaProviderName; score: number },
+) {
+  return storeSession(link, { action, provider, stepUp: { score } })
+}
+
+// Counts a new attempt against the link and returns the running total
+export function recordVerificationAttempt(link: VerificationLink) {
+  return getKeyValueStore().increment(attemptsKey(link.jti), Math.max(link.exp * 1000 - Date.now(), 1000))
+}
+
+/**
+ * Checks and consumes a session nonce. Each nonce covers exactly one call to /api/verify,
+ * whatever the outcome, so a retry always starts a fresh session.
+ */
+export async function consumeVerificationSession(
+  nonce: string | null | undefined,
+  link: VerificationLink,
+): Promise<VerificationSessionResult> {
+  if (!nonce || typeof nonce !== "string") {
+    return { valid: false, reason: "missing" }
+  }
+
+  const store = getKeyValueStore()
+  const raw = await store.take(sessionKey(nonce))
+
+  if (!raw) {
+    const used = await store.get(usedSessionKey(nonce))
+    return { valid: false, reason: used ? "used" : "unknown" }
+  }
+  await store.set(usedSessionKey(nonce), "1", USED_SESSION_TTL_MS)
+
+  const session: VerificationSession = JSON.parse(raw)
+  if (session.exp <= Date.now()) {
+    return { valid: false, reason: "expired" }
+  }
+  if (!safeEqual(session.jti, link.jti)) {
+    return { valid: false, reason: "mismatch" }
+  }
+
+  return { valid: true, action: session.action, provider: session.provider, stepUp: session.stepUp }
+}
@@ -0,0 +1,189 @@
+import { z } from "zod"
+import { brandingSchema } from "@/lib/branding"
+import { supportedLocales } from "@/lib/i18n/types"
+
+// Shared by the verification page and the routes it calls, so this must stay free of server-only imports
+
+/**
+ * Stable error codes for every failure the verification API returns. Bots and the page
+ * branch on these; the human-readable `error` next to them may change at any time.
+ */
+export const verifyErrorCodes = {
+  INVALID_REQUEST: "The request body is missing fields or has the wrong types",
+  INVALID_LINK: "The verification link is missing, malformed or not signed by this server",
+  LINK_EXPIRED: "The verification link has expired; the bot has to issue a new one",
+  LINK_USED: "The verification link was already redeemed (or is being redeemed right now)",
+  SESSION_INVALID: "The session nonce is missing, unknown, already used or for another link",
+  SESSION_EXPIRED: "The session nonce expired before the captcha token was submitted",
+  RATE_LIMITED: "Too many attempts from this IP, user or guild; see retryAfter",
+  ATTEMPT_LIMIT_REACHED: "The link used up the attempts the guild allows; the bot has to issue a new one",
+  SIGN_IN_REQUIRED: "The guild requires a Discord sign-in and there is no valid one",
+  NOT_GUILD_MEMBER: "The Discord account is not a member of the guild",
+  IP_DENIED: "The guild's IP rules refuse this network or location",
+  ALT_ACCOUNT_BLOCKED: "The device or network already verified too many other accounts in the guild",
+  CAPTCHA_MISSING: "No captcha token was submitted",
+  CAPTCHA_REPLAYED: "The captcha token was already submitted once",
+  CAPTCHA_EXPIRED: "The captcha provider reports the token as expired or duplicate",
+  CAPTCHA_FAILED: "The captcha provider rejected the token; see errorCodes",
+  CAPTCHA_ACTION_MISMATCH: "The token was minted for a different captcha action",
+  CAPTCHA_HOSTNAME_MISMATCH: "The captcha was solved on a hostname the guild does not allow",
+  CAPTCHA_TOKEN_TOO_OLD: "The captcha was solved longer ago than the guild's maximum token age",
+  CAPTCHA_LOW_SCORE: "The captcha score is below the guild's threshold",
+  STEP_UP_REQUIRED: "The score is borderline; solve the interactive challenge in stepUp",
+  DISCORD_ROLE_MISSING: "The verified role configured for the guild no longer exists",
+  DISCORD_MISSING_PERMISSIONS: "The bot lacks the permissions to assign the verified role",
+  DISCORD_RATE_LIMITED: "Discord is rate limiting the bot",
+  DISCORD_ERROR: "Discord rejected the role assignment for another reason",
+  DOWNSTREAM_TIMEOUT: "The downstream bot server did not answer in time",
+  DOWNSTREAM_UNREACHABLE: "The downstream bot server could not be reached",
+  DOWNSTREAM_ERROR: "The downstream bot server answered with a server error",
+  DOWNSTREAM_REJECTED: "The downstream bot server refused the verification",
+  UNAUTHORIZED: "The server-to-server API key in the Authorization header is missing or wrong",
+  SERVER_MISCONFIGURED: "Required server configuration (keys, secrets) is missing or invalid",
+  INTERNAL_ERROR: "An unexpected server error; quote the X-Request-Id header when reporting it",
+} as const
+
+export type VerifyErrorCode = keyof typeof verifyErrorCodes
+
+const verifyErrorCodeSchema = z.enum(Object.keys(verifyErrorCodes) as [VerifyErrorCode, ...VerifyErrorCode[]])
+
+// Browser details the page sends; the server hashes them for alt detection and forwards them downstream.
+// Fields not listed here are dropped
+export const verifyUserDataSchema = z.object({
+  userAgent: z.string().max(1000).optional(),
+  language: z.string().max(100).optional(),
+  timezone: z.string().max(100).optional(),
+  screen: z.string().max(100).optional(),
+  platform: z.string().max(100).optional(),
+  hardwareConcurrency: z.number().int().min(0).max(4096).optional(),
+  timestamp: z.string().max(100).optional(),
+})
+
+export type VerifyUserData = z.infer<typeof verifyUserDataSchema>
+
+const linkTokenSchema = z.string().min(1).max(4096)
+
+// Body of POST /api/session
+export const sessionRequestSchema = z.object({
+  token: linkTokenSchema,
+})
+
+export type SessionRequest = z.infer<typeof sessionRequestSchema>
+
+// Body of POST /api/verify: `captcha` normally, `stepUpToken` when answering a step-up challenge
+export const verifyRequestSchema = z.object({
+  token: linkTokenSchema,
+  nonce: z.string().min(1).max(200),
+  captcha: z.string().min(1).max(10_000).optional(),
+  stepUpToken: z.string().min(1).max(10_000).optional(),
+  userData: verifyUserDataSchema.default({}),
+})
+
+export type VerifyRequest = z.infer<typeof verifyRequestSchema>
+
+// Every failing response from the verification routes has this shape
+export const apiFailureSchema = z.object({
+  success: z.literal(false),
+  code: verifyErrorCodeSchema,
+  error: z.string(),
+  details: z.string().optional(),
+  score: z.number().optional(),
+  errorCodes: z.array(z.string()).optional(),
+  retryAfter: z.number().optional(),
+  stepUp: z
+    .object({
+      provider: z.literal("recaptcha-v2"),
+      siteKey: z.string(),
+      nonce: z.string(),
+      expiresAt: z.number(),
+    })
+    .optional(),
+})
+
+export type ApiFailure = z.infer<typeof apiFailureSchema>
+
+export const sessionResponseSchema = z.discriminatedUnion("success", [
+  z.object({
+    success: z.literal(true),
+    nonce: z.string(),
+    action: z.string(),
+    provider: z.string(),
+    expiresAt: z.number(),
+  }),
+  apiFailureSchema,
+])
+
+export type SessionResponse = z.infer<typeof sessionResponseSchema>
+
+export const verifyResponseSchema = z.discriminatedUnion("success", [
+  z.object({
+    success: z.literal(true),
+    score: z.number().optional(),
+    action: z.string().optional(),
+    hostname: z.string().optional(),
+    stepUp: z.boolean(),
+    message: z.string(),
+    guild_name: z.string().nullish(),
+    user_ip: z.string(),
+  }),
+  apiFailureSchema,
+])
+
+export type VerifyResponse = z.infer<typeof verifyResponseSchema>
+
+/**
+ * Where /api/verify has got to, in order: checking the link, session and captcha token,
+ * running risk checks (score, alt accounts), delivering to the bot or Discord, and
+ * notifying the webhook. Only reported to clients that ask for `text/event-stream`.
+ */
+export const verifyStages = ["token", "risk", "delivery", "webhook"] as const
+
+export type VerifyStage = (typeof verifyStages)[number]
+
+// Streamed as `event: stage`, once per stage the request reaches
+export const verifyStageEventSchema = z.object({ stage: z.enum(verifyStages) })
+
+// Streamed as the final `event: result`: the status and body the JSON response would have had
+export const verifyResultEventSchema = z.object({ status: z.number(), body: z.unknown() })
+
+// GET /api/verification-link: what the page needs to know about its link before running the captcha.
+// `locale` is the language the page should render in, for valid and rejected links alike.
+export const verificationLinkResponseSchema = z.discriminatedUnion("valid", [
+  z.object({
+    valid: z.literal(true),
+    locale: z.enum(supportedLocales),
+    id: z.string(),
+    username: z.string().nullish(),
+    guild: z.string(),
+    guild_name: z.string().nullish(),
+    guild_icon: z.string().nullish(),
+    expiresAt: z.number(),
+    // Set when the guild wants the user to sign in with Discord first
+    requiresSignIn: z.boolean(),
+    discordUser: z.object({ id: z.string(), username: z.string() }).nullable(),
+    branding: brandingSchema,
+  }),
+  z.object({
+    valid: z.literal(false),
+    locale: z.enum(supportedLocales),
+    code: verifyErrorCodeSchema,
+    // The link check's own reason (missing, malformed, bad_signature, expired, used), kept for older bots
+    reason: z.string().optional(),
+    error: z.string(),
+  }),
+])
+
+export type VerificationLinkResponse = z.infer<typeof verificationLinkResponseSchema>
+
+export type VerificationLinkInfo = Extract<VerificationLinkResponse, { valid: true }>
+
+/**
+ * Parses a response body against its schema. Anything unexpected (a proxy's HTML error
+ * page, a half-deployed server) comes back as an INTERNAL_ERROR failure instead of throwing.
+ */
+export function parseApiResponse<T>(schema: z.ZodType<T>, body: unknown): T | ApiFailure {
+  const parsed = schema.safeParse(body)
+  if (parsed.success) return parsed.data
+  const message = typeof (body as { error?: unknown })?.error === "string" ? (body as { error: string }).error : null
+  return { success: false, code: "INTERNAL_ERROR", error: message || "Unexpected response from the server" }
+}
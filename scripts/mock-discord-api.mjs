@@ -0,0 +1,105 @@
+// Local stand-in for the Discord REST API, for exercising the "discord" delivery mode.
+//
+//   node scripts/mock-discord-api.mjs
+//   DISCORD_API_BASE=http://localhost:4010/api/v10 DISCORD_BOT_TOKEN=test pnpm dev
+//
+// Every member exists except IDs starting with "404", and every role exists except IDs
+// starting with "404". Each route allows MOCK_BUCKET_SIZE requests per MOCK_BUCKET_SECONDS
+// and answers 429 past that, so the client's rate-limit handling can be watched in the logs.
+import { createServer } from "node:http"
+
+const port = Number(process.env.PORT || 4010)
+const bucketSize = Number(process.env.MOCK_BUCKET_SIZE || 5)
+const bucketSeconds = Number(process.env.MOCK_BUCKET_SECONDS || 5)
+
+const buckets = new Map()
+const memberRoles = new Map()
+const dmChannels = new Map()
+let nextChannelId = 1_000_000_000_000_000n
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+function takeFromBucket(route) {
+  const now = Date.now()
+  let bucket = buckets.get(route)
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { remaining: bucketSize, resetAt: now + bucketSeconds * 1000 }
+    buckets.set(route, bucket)
+  }
+  const resetAfter = Math.max(0, (bucket.resetAt - now) / 1000)
+  if (bucket.remaining <= 0) {
+    return { limited: true, resetAfter }
+  }
+  bucket.remaining -= 1
+  return { limited: false, remaining: bucket.remaining, resetAfter }
+}
+
+async function readBody(req) {
+  let raw = ""
+  for await (const chunk of req) raw += chunk
+  return raw ? JSON.parse(raw) : {}
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`)
+  const path = url.pathname.replace(/^\/api\/v\d+/, "")
+  console.log(`${req.method} ${path}`, req.headers["x-audit-log-reason"] ? `(${req.headers["x-audit-log-reason"]})` : "")
+
+  if (!req.headers.authorization?.startsWith("Bot ")) {
+    return send(res, 401, { message: "401: Unauthorized", code: 0 })
+  }
+
+  const route = `${req.method} ${path.replace(/\/(members|roles|messages)\/\d+/g, "/$1/:id")}`
+  const limit = takeFromBucket(route)
+  const rateHeaders = {
+    "X-RateLimit-Limit": String(bucketSize),
+    "X-RateLimit-Remaining": String(limit.remaining ?? 0),
+    "X-RateLimit-Reset-After": limit.resetAfter.toFixed(3),
+    "X-RateLimit-Bucket": Buffer.from(route).toString("hex").slice(0, 16),
+  }
+  if (limit.limited) {
+    return send(
+      res,
+      429,
+      { message: "You are being rate limited.", retry_after: limit.resetAfter, global: false },
+      { ...rateHeaders, "Retry-After": String(Math.ceil(limit.resetAfter)) },
+    )
+  }
+
+  let match = path.match(/^\/guilds\/(\d+)\/members\/(\d+)\/roles\/(\d+)$/)
+  if (match && (req.method === "PUT" || req.method === "DELETE")) {
+    const [, guild, user, role] = match
+    if (user.startsWith("404")) return send(res, 404, { message: "Unknown Member", code: 10007 }, rateHeaders)
+    if (role.startsWith("404")) return send(res, 404, { message: "Unknown Role", code: 10011 }, rateHeaders)
+
+    const key = `${guild}:${user}`
+    const roles = memberRoles.get(key) || new Set()
+    if (req.method === "PUT") roles.add(role)
+    else roles.delete(role)
+    memberRoles.set(key, roles)
+    console.log(`  member ${key} roles: [${[...roles].join(", ")}]`)
+    return send(res, 204, undefined, rateHeaders)
+  }
+
+  if (path === "/users/@me/channels" && req.method === "POST") {
+    const { recipient_id: recipient } = await readBody(req)
+    if (!dmChannels.has(recipient)) dmChannels.set(recipient, String(nextChannelId++))
+    return send(res, 200, { id: dmChannels.get(recipient), type: 1 }, rateHeaders)
+  }
+
+  match = path.match(/^\/channels\/(\d+)\/messages$/)
+  if (match && req.method === "POST") {
+    const { content } = await readBody(req)
+    console.log(`  DM in channel ${match[1]}: ${content}`)
+    return send(res, 200, { id: String(Date.now()), channel_id: match[1], content }, rateHeaders)
+  }
+
+  send(res, 404, { message: "404: Not Found", code: 0 }, rateHeaders)
+})
+
+server.listen(port, () => {
+  console.log(`Mock Discord API listening on http://localhost:${port}/api/v10`)
+})